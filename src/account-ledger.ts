@@ -0,0 +1,69 @@
+// account-ledger.ts
+// Normalizes /portfolio/{accountId}/ledger responses. The gateway keys the ledger
+// by currency, with a BASE entry that aggregates every currency in the account's base currency.
+import { toNumber } from "./numbers.js";
+
+export interface LedgerEntry {
+  // ISO currency code, or "BASE" for the aggregate
+  currency: string;
+  cash: number | null;
+  settledCash: number | null;
+  unrealizedPnl: number | null;
+  realizedPnl: number | null;
+  // Units of the account's base currency per unit of this currency
+  exchangeRate: number | null;
+  netLiquidation: number | null;
+  stockMarketValue: number | null;
+}
+
+export interface AccountLedger {
+  accountId: string;
+  base: LedgerEntry | null;
+  currencies: LedgerEntry[];
+  updated: string | null;
+}
+
+const toEntry = (currency: string, raw: any): LedgerEntry => ({
+  currency: currency,
+  cash: toNumber(raw?.cashbalance),
+  settledCash: toNumber(raw?.settledcash),
+  unrealizedPnl: toNumber(raw?.unrealizedpnl),
+  realizedPnl: toNumber(raw?.realizedpnl),
+  exchangeRate: toNumber(raw?.exchangerate),
+  netLiquidation: toNumber(raw?.netliquidationvalue),
+  stockMarketValue: toNumber(raw?.stockmarketvalue),
+});
+
+/**
+ * Split the ledger into the BASE aggregate and one entry per currency, sorted by
+ * currency code. `updated` is the newest entry timestamp (epoch seconds) as ISO.
+ */
+export function normalizeLedger(accountId: string, data: any): AccountLedger {
+  const rows = data && typeof data === "object" ? Object.entries<any>(data) : [];
+
+  let base: LedgerEntry | null = null;
+  const currencies: LedgerEntry[] = [];
+  let latest: number | null = null;
+
+  for (const [key, raw] of rows) {
+    const currency = String(raw?.currency || key).toUpperCase();
+    const entry = toEntry(currency, raw);
+    if (currency === "BASE") {
+      base = entry;
+    } else {
+      currencies.push(entry);
+    }
+
+    const timestamp = toNumber(raw?.timestamp);
+    if (timestamp !== null && (latest === null || timestamp > latest)) {
+      latest = timestamp;
+    }
+  }
+
+  return {
+    accountId: accountId,
+    base: base,
+    currencies: currencies.sort((a, b) => a.currency.localeCompare(b.currency)),
+    updated: latest !== null ? new Date(latest * 1000).toISOString() : null,
+  };
+}
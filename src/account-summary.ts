@@ -0,0 +1,55 @@
+// account-summary.ts
+// Compact view of /portfolio/{accountId}/summary. The raw summary wraps dozens of
+// keys in { amount, currency, isNull, timestamp, value } objects; this keeps the few
+// balances needed to judge an account's state as plain numbers.
+
+export type AccountInfoVerbosity = "compact" | "raw";
+
+export interface AccountSummary {
+  accountId: string;
+  currency: string | null;
+  netLiquidation: number | null;
+  equityWithLoan: number | null;
+  buyingPower: number | null;
+  excessLiquidity: number | null;
+  maintenanceMargin: number | null;
+  // Excess liquidity as a fraction of net liquidation (0.25 = 25%)
+  cushion: number | null;
+  // null when the account is not subject to pattern day trading limits
+  dayTradesRemaining: number | null;
+}
+
+const SUMMARY_KEYS = {
+  netLiquidation: "netliquidation",
+  equityWithLoan: "equitywithloanvalue",
+  buyingPower: "buyingpower",
+  excessLiquidity: "excessliquidity",
+  maintenanceMargin: "maintmarginreq",
+  cushion: "cushion",
+  dayTradesRemaining: "daytradesremaining",
+} as const;
+
+const readAmount = (entry: any): number | null => {
+  if (!entry || entry.isNull) return null;
+  const raw = entry.amount ?? entry.value;
+  if (raw === undefined || raw === null || raw === "") return null;
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export function normalizeAccountSummary(accountId: string, summary: any): AccountSummary {
+  const dayTrades = readAmount(summary?.[SUMMARY_KEYS.dayTradesRemaining]);
+
+  return {
+    accountId: accountId,
+    currency: summary?.[SUMMARY_KEYS.netLiquidation]?.currency || null,
+    netLiquidation: readAmount(summary?.[SUMMARY_KEYS.netLiquidation]),
+    equityWithLoan: readAmount(summary?.[SUMMARY_KEYS.equityWithLoan]),
+    buyingPower: readAmount(summary?.[SUMMARY_KEYS.buyingPower]),
+    excessLiquidity: readAmount(summary?.[SUMMARY_KEYS.excessLiquidity]),
+    maintenanceMargin: readAmount(summary?.[SUMMARY_KEYS.maintenanceMargin]),
+    cushion: readAmount(summary?.[SUMMARY_KEYS.cushion]),
+    // The gateway reports -1 for unlimited day trades
+    dayTradesRemaining: dayTrades !== null && dayTrades < 0 ? null : dayTrades,
+  };
+}
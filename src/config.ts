@@ -17,5 +17,29 @@ export const config = {
   
   // Paper trading configuration
   IB_PAPER_TRADING: process.env.IB_PAPER_TRADING === "true",
+  // Orders to live (non-paper) accounts are refused unless this is set
+  IB_ALLOW_LIVE_TRADING: process.env.IB_ALLOW_LIVE_TRADING === "true",
+
+  // Read-only mode: trading tools are not registered and order requests are refused
+  IB_READ_ONLY: process.env.IB_READ_ONLY === "true",
+
+  // Approval mode: orders are parked as tickets until approve_order releases them
+  IB_REQUIRE_APPROVAL: process.env.IB_REQUIRE_APPROVAL === "true",
+  IB_APPROVAL_TTL: parseInt(process.env.IB_APPROVAL_TTL || "300000"),
+
+  // Order reply message ids confirmed automatically with suppressConfirmations (comma separated)
+  IB_AUTO_CONFIRM_MESSAGE_IDS: process.env.IB_AUTO_CONFIRM_MESSAGE_IDS || "",
+
+  // Market data configuration
+  IB_SNAPSHOT_TIMEOUT: parseInt(process.env.IB_SNAPSHOT_TIMEOUT || "5000"),
+
+  // Pre-trade risk limits (unset limits are not enforced)
+  IB_RISK_MAX_ORDER_NOTIONAL: process.env.IB_RISK_MAX_ORDER_NOTIONAL ? parseFloat(process.env.IB_RISK_MAX_ORDER_NOTIONAL) : undefined,
+  IB_RISK_MAX_ORDER_QUANTITY: process.env.IB_RISK_MAX_ORDER_QUANTITY ? parseFloat(process.env.IB_RISK_MAX_ORDER_QUANTITY) : undefined,
+  IB_RISK_MAX_DAILY_ORDERS: process.env.IB_RISK_MAX_DAILY_ORDERS ? parseInt(process.env.IB_RISK_MAX_DAILY_ORDERS) : undefined,
+  IB_RISK_MAX_POSITION_SIZE: process.env.IB_RISK_MAX_POSITION_SIZE ? parseFloat(process.env.IB_RISK_MAX_POSITION_SIZE) : undefined,
+  IB_RISK_SYMBOL_ALLOWLIST: process.env.IB_RISK_SYMBOL_ALLOWLIST || "",
+  IB_RISK_SYMBOL_DENYLIST: process.env.IB_RISK_SYMBOL_DENYLIST || "",
+  IB_RISK_ALLOW_MARKET_ORDERS: process.env.IB_RISK_ALLOW_MARKET_ORDERS !== "false",
 
 };
\ No newline at end of file
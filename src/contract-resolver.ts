@@ -0,0 +1,96 @@
+// contract-resolver.ts
+// Turns raw /iserver/secdef/search results into normalized contract candidates
+// and picks a single contract for a symbol, refusing to guess when it is ambiguous.
+
+export interface ContractCandidate {
+  conid: number;
+  symbol: string;
+  companyName?: string;
+  description?: string;
+  secType?: string;
+  exchange?: string;
+  currency?: string;
+}
+
+export interface ContractFilter {
+  conid?: number;
+  secType?: string;
+  exchange?: string;
+  currency?: string;
+}
+
+export class ContractResolutionError extends Error {
+  readonly candidates: ContractCandidate[];
+
+  constructor(message: string, candidates: ContractCandidate[] = []) {
+    super(message);
+    this.name = "ContractResolutionError";
+    this.candidates = candidates;
+  }
+}
+
+/**
+ * Normalize a single secdef search entry. The listing exchange is reported in
+ * `description` for stocks, and the security type comes from the first section.
+ */
+export function normalizeSearchResult(raw: any, symbol: string): ContractCandidate {
+  return {
+    conid: Number(raw.conid),
+    symbol: raw.symbol || symbol,
+    companyName: raw.companyName || undefined,
+    description: raw.companyHeader || raw.description || undefined,
+    secType: raw.secType || raw.sections?.[0]?.secType || undefined,
+    exchange: raw.description || undefined,
+    currency: raw.currency || undefined,
+  };
+}
+
+const matches = (value: string | undefined, expected: string | undefined): boolean => {
+  if (!expected) return true;
+  return value !== undefined && value.toUpperCase() === expected.toUpperCase();
+};
+
+/**
+ * Apply the secType/exchange/currency filter (case-insensitive). A candidate
+ * that does not report a filtered field is excluded rather than assumed to match.
+ */
+export function filterCandidates(candidates: ContractCandidate[], filter: ContractFilter = {}): ContractCandidate[] {
+  return candidates.filter((candidate) =>
+    matches(candidate.secType, filter.secType) &&
+    matches(candidate.exchange, filter.exchange) &&
+    matches(candidate.currency, filter.currency)
+  );
+}
+
+/**
+ * Pick exactly one contract out of the filtered candidates.
+ * In strict mode (used for orders) more than one match is an error.
+ */
+export function selectContract(
+  symbol: string,
+  candidates: ContractCandidate[],
+  filter: ContractFilter = {},
+  strict = true
+): ContractCandidate {
+  const filtered = filterCandidates(candidates, filter);
+
+  if (filtered.length === 0) {
+    if (candidates.length === 0) {
+      throw new ContractResolutionError(`Symbol ${symbol} not found`);
+    }
+    throw new ContractResolutionError(
+      `No contract for ${symbol} matches the requested filter ${JSON.stringify(filter)}`,
+      candidates
+    );
+  }
+
+  if (filtered.length > 1 && strict) {
+    throw new ContractResolutionError(
+      `Symbol ${symbol} is ambiguous (${filtered.length} matching contracts). ` +
+      "Pass an explicit conid, or narrow it down with secType, exchange and currency.",
+      filtered
+    );
+  }
+
+  return filtered[0];
+}
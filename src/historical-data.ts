@@ -0,0 +1,51 @@
+// historical-data.ts
+// Normalizes /iserver/marketdata/history responses into plain OHLCV bars.
+import { toNumber } from "./numbers.js";
+
+export interface HistoricalDataOptions {
+  period: string;
+  bar: string;
+  outsideRth?: boolean;
+  startTime?: string;
+}
+
+export interface HistoricalBar {
+  time: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number | null;
+}
+
+/**
+ * Convert the gateway's `{ t, o, h, l, c, v }` rows (t in epoch milliseconds)
+ * into bars with ISO timestamps, sorted oldest first. Rows without a usable
+ * timestamp or price are dropped.
+ */
+export function normalizeHistoricalBars(rows: any[] | undefined): HistoricalBar[] {
+  if (!Array.isArray(rows)) return [];
+
+  const bars: HistoricalBar[] = [];
+  for (const row of rows) {
+    const time = toNumber(row?.t);
+    const open = toNumber(row?.o);
+    const high = toNumber(row?.h);
+    const low = toNumber(row?.l);
+    const close = toNumber(row?.c);
+    if (time === null || open === null || high === null || low === null || close === null) {
+      continue;
+    }
+
+    bars.push({
+      time: new Date(time).toISOString(),
+      open,
+      high,
+      low,
+      close,
+      volume: toNumber(row?.v),
+    });
+  }
+
+  return bars.sort((a, b) => a.time.localeCompare(b.time));
+}
@@ -1,6 +1,45 @@
 import axios, { AxiosInstance, AxiosRequestConfig } from "axios";
 import https from "https";
+import { randomUUID } from "crypto";
 import { Logger } from "./logger.js";
+import {
+  ContractCandidate,
+  ContractFilter,
+  ContractResolutionError,
+  normalizeSearchResult,
+  selectContract,
+} from "./contract-resolver.js";
+import { HistoricalDataOptions, normalizeHistoricalBars } from "./historical-data.js";
+import { normalizeWhatIf } from "./order-preview.js";
+import { AccountLedger, normalizeLedger } from "./account-ledger.js";
+import { AccountInfoVerbosity, normalizeAccountSummary } from "./account-summary.js";
+import { PositionQuery, queryPositions } from "./positions.js";
+import { AccountPnL, PositionPnL, normalizePartitionedPnl, toPositionPnl } from "./pnl.js";
+import { OrderTrades, groupTradesByOrder } from "./trades.js";
+import { OrderFill, isTerminalOrderStatus, statusOrderSide, statusOrderType, summarizeOrderStatus } from "./order-status.js";
+import {
+  DEFAULT_AUTO_CONFIRM_MESSAGE_IDS,
+  DEFAULT_MAX_REPLY_CHAIN_LENGTH,
+  ReplyPolicy,
+  SubmissionOutcome,
+  walkReplyChain,
+} from "./order-submission.js";
+import { AccountMode, accountTradingMode, classifyAccounts } from "./trading-mode.js";
+import {
+  DEFAULT_OPTION_CHAIN_QUERY,
+  OptionChainQuery,
+  OptionInfoRequest,
+  buildOptionChain,
+  monthsInWindow,
+  optionMonths,
+  selectStrikes,
+} from "./option-chain.js";
+import {
+  DEFAULT_MARKET_DATA_FIELDS,
+  MarketDataFieldName,
+  parseSnapshot,
+  toFieldIds,
+} from "./market-data-fields.js";
 
 interface ExtendedAxiosRequestConfig extends AxiosRequestConfig {
   metadata?: { requestId: string };
@@ -9,19 +48,85 @@ interface ExtendedAxiosRequestConfig extends AxiosRequestConfig {
 export interface IBClientConfig {
   host: string;
   port: number;
+  snapshotTimeoutMs?: number;
+  readOnly?: boolean;
+  // Reply message ids confirmed automatically when confirmations are suppressed
+  autoConfirmMessageIds?: string[];
 }
 
 export interface OrderRequest {
   accountId: string;
   symbol: string;
+  conid?: number;
+  secType?: string;
+  exchange?: string;
+  currency?: string;
   action: "BUY" | "SELL";
-  orderType: "MKT" | "LMT" | "STP";
+  orderType: "MKT" | "LMT" | "STP" | "STOP_LIMIT" | "TRAIL" | "TRAILLMT" | "MOC" | "LOC";
   quantity: number;
   price?: number;
   stopPrice?: number;
+  trailingAmt?: number;
+  trailingType?: "amt" | "%";
+  tif?: "DAY" | "GTC" | "IOC" | "OPG" | "GTD";
+  expiry?: string;
+  outsideRth?: boolean;
   suppressConfirmations?: boolean;
 }
 
+export interface BracketOrderRequest {
+  accountId: string;
+  symbol: string;
+  conid?: number;
+  secType?: string;
+  exchange?: string;
+  currency?: string;
+  action: "BUY" | "SELL";
+  orderType: "MKT" | "LMT";
+  quantity: number;
+  price?: number;
+  takeProfitPrice: number;
+  stopLossPrice: number;
+  suppressConfirmations?: boolean;
+}
+
+export interface OrderModification {
+  price?: number;
+  auxPrice?: number;
+  quantity?: number;
+  tif?: "DAY" | "GTC" | "IOC" | "OPG";
+  suppressConfirmations?: boolean;
+}
+
+/**
+ * Raised when a working order cannot be rebuilt from its status for amendment
+ */
+export class OrderModificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OrderModificationError";
+  }
+}
+
+export interface BrokerageAccounts {
+  accounts: string[];
+  selectedAccount?: string;
+}
+
+export interface QuoteRequest extends ContractFilter {
+  symbol: string;
+}
+
+// Endpoints that create, change, cancel or confirm orders. What-if previews only
+// simulate an order and stay available in read-only mode.
+const ORDER_ENDPOINT_PATTERN = /^\/?iserver\/(account\/[^/]+\/orders?(\/|$)|reply\/)/;
+const PREVIEW_ENDPOINT_PATTERN = /\/orders\/whatif$/;
+
+export const isBlockedInReadOnlyMode = (method: string | undefined, url: string | undefined): boolean => {
+  if (!method || method.toLowerCase() === "get" || !url) return false;
+  return ORDER_ENDPOINT_PATTERN.test(url) && !PREVIEW_ENDPOINT_PATTERN.test(url);
+};
+
 const isError = (error: unknown): error is Error => {
   return error instanceof Error;
 };
@@ -35,9 +140,25 @@ export class IBClient {
   private maxAuthAttempts = 3;
   private tickleInterval?: NodeJS.Timeout;
   private tickleIntervalMs = 30000; // 30 seconds (well within 1/sec rate limit)
+  private snapshotTimeoutMs: number;
+  private autoConfirmMessageIds: string[];
+  private snapshotPollIntervalMs = 250;
+  private snapshotMaxPollIntervalMs = 2000;
+  private snapshotBatchSize = 50;
+  private optionInfoBatchSize = 5;
+  private contractLookupBatchSize = 5;
+  private maxOptionInfoRequests = 200;
+  private orderPollIntervalMs = 500;
+  private orderMaxPollIntervalMs = 4000;
+  private positionsPageSize = 100;
+  private maxPositionPages = 50;
+  private accountModes?: AccountMode[];
+  private brokerageAccounts?: BrokerageAccounts;
 
   constructor(config: IBClientConfig) {
     this.config = config;
+    this.snapshotTimeoutMs = config.snapshotTimeoutMs ?? 5000;
+    this.autoConfirmMessageIds = config.autoConfirmMessageIds ?? DEFAULT_AUTO_CONFIRM_MESSAGE_IDS;
     this.initializeClient();
   }
 
@@ -55,6 +176,12 @@ export class IBClient {
 
     // Add request interceptor to ensure authentication and log requests
     this.client.interceptors.request.use(async (config) => {
+      // Second line of defence behind the tool registration in read-only mode
+      if (this.config.readOnly && isBlockedInReadOnlyMode(config.method, config.url)) {
+        Logger.warn(`[READ-ONLY] Refusing ${config.method?.toUpperCase()} ${config.url}`);
+        throw new Error(`Read-only mode: ${config.method?.toUpperCase()} ${config.url} is not allowed`);
+      }
+
       const requestId = Math.random().toString(36).substr(2, 9);
       Logger.log(`[REQUEST-${requestId}] ${config.method?.toUpperCase()} ${config.url}`, {
         baseURL: config.baseURL,
@@ -109,6 +236,8 @@ export class IBClient {
       this.config.port = newPort;
       this.isAuthenticated = false; // Force re-authentication with new port
       this.authAttempts = 0; // Reset auth attempts
+      this.accountModes = undefined; // The new session may be logged in to other accounts
+      this.brokerageAccounts = undefined;
       this.initializeClient(); // Re-initialize client with new port
     }
   }
@@ -140,6 +269,8 @@ export class IBClient {
         this.startTickle(); // Start session maintenance
       } else {
         this.stopTickle(); // Stop tickle if not authenticated
+        this.accountModes = undefined; // The next login may be to other accounts
+        this.brokerageAccounts = undefined;
       }
       
       return authenticated;
@@ -253,7 +384,11 @@ export class IBClient {
     }
   }
 
-  async getAccountInfo(): Promise<any> {
+  /**
+   * Accounts with their summaries. "raw" returns the account metadata and the
+   * gateway's summary as is, "compact" only the key balances as plain numbers.
+   */
+  async getAccountInfo(verbosity: AccountInfoVerbosity = "raw"): Promise<any> {
     Logger.log("[ACCOUNT-INFO] Starting getAccountInfo request...");
     try {
       Logger.log("[ACCOUNT-INFO] Fetching portfolio accounts...");
@@ -277,13 +412,19 @@ export class IBClient {
         const summary = summaryResponse.data;
         Logger.log(`[ACCOUNT-INFO] Account ${account.id} summary:`, summary);
 
-        result.summaries.push({
-          accountId: account.id,
-          summary: summary
-        });
+        result.summaries.push(verbosity === "compact"
+          ? normalizeAccountSummary(account.id, summary)
+          : {
+            accountId: account.id,
+            summary: summary
+          });
       }
 
       Logger.log(`[ACCOUNT-INFO] Completed processing ${result.summaries.length} accounts`);
+      if (verbosity === "compact") {
+        // The account metadata is as long as the raw summary; the compact view leaves it out
+        return { summaries: result.summaries };
+      }
       return result;
     } catch (error) {
       Logger.error("[ACCOUNT-INFO] Failed to get account info:", error);
@@ -299,15 +440,221 @@ export class IBClient {
     }
   }
 
-  async getPositions(accountId?: string): Promise<any> {
+  /**
+   * Daily and unrealized PnL, net liquidation and market value per account. Given
+   * an accountId, only that account is returned, optionally with PnL per position.
+   */
+  async getPnL(accountId?: string, includePositions = false): Promise<{ accounts: AccountPnL[]; positions?: PositionPnL[] }> {
     try {
-      let url = "/portfolio/positions";
       if (accountId) {
-        url = `/portfolio/${accountId}/positions`;
+        await this.ensureActiveAccount(accountId);
       }
 
-      const response = await this.client.get(url);
-      return response.data;
+      const response = await this.client.get("/iserver/account/pnl/partitioned");
+      const accounts = normalizePartitionedPnl(response.data)
+        .filter((account) => !accountId || account.accountId === accountId);
+
+      if (!accountId || !includePositions) {
+        return { accounts };
+      }
+
+      const positions = await this.getPositions(accountId);
+      return {
+        accounts: accounts,
+        positions: toPositionPnl(Array.isArray(positions) ? positions : []),
+      };
+    } catch (error) {
+      Logger.error("Failed to get PnL:", error);
+
+      // Check if this is likely an authentication error
+      if (this.isAuthenticationError(error)) {
+        const authError = new Error("Authentication required to retrieve PnL. Please authenticate with Interactive Brokers first.");
+        (authError as any).isAuthError = true;
+        throw authError;
+      }
+
+      throw new Error("Failed to retrieve PnL");
+    }
+  }
+
+  /**
+   * Cash, settled cash, PnL and exchange rate per currency, plus the BASE aggregate
+   */
+  async getAccountLedger(accountId: string): Promise<AccountLedger> {
+    try {
+      const response = await this.client.get(`/portfolio/${accountId}/ledger`);
+      return normalizeLedger(accountId, response.data);
+    } catch (error) {
+      Logger.error("Failed to get account ledger:", error);
+
+      // Check if this is likely an authentication error
+      if (this.isAuthenticationError(error)) {
+        const authError = new Error("Authentication required to retrieve the account ledger. Please authenticate with Interactive Brokers first.");
+        (authError as any).isAuthError = true;
+        throw authError;
+      }
+
+      throw new Error(`Failed to retrieve the ledger for account ${accountId}`);
+    }
+  }
+
+  /**
+   * Accounts this session can trade, from /iserver/accounts. The gateway also
+   * expects this call before any other /iserver/account request. Fetched once per session.
+   */
+  async getAccounts(): Promise<BrokerageAccounts> {
+    if (this.brokerageAccounts) {
+      return this.brokerageAccounts;
+    }
+
+    try {
+      const response = await this.client.get("/iserver/accounts");
+      const accounts: string[] = Array.isArray(response.data?.accounts) ? response.data.accounts.map(String) : [];
+      const result: BrokerageAccounts = {
+        accounts: accounts,
+        selectedAccount: response.data?.selectedAccount || undefined,
+      };
+      if (accounts.length > 0) {
+        this.brokerageAccounts = result;
+      }
+      return result;
+    } catch (error) {
+      Logger.error("Failed to get brokerage accounts:", error);
+
+      // Check if this is likely an authentication error
+      if (this.isAuthenticationError(error)) {
+        const authError = new Error("Authentication required to list accounts. Please authenticate with Interactive Brokers first.");
+        (authError as any).isAuthError = true;
+        throw authError;
+      }
+
+      throw new Error("Failed to retrieve brokerage accounts");
+    }
+  }
+
+  /**
+   * Make accountId the session's active account. Several iserver endpoints act on
+   * the active account only, which matters for advisor and multi-account logins.
+   */
+  async switchAccount(accountId: string): Promise<any> {
+    try {
+      const response = await this.client.post("/iserver/account", { acctId: accountId });
+      if (this.brokerageAccounts) {
+        this.brokerageAccounts = { ...this.brokerageAccounts, selectedAccount: accountId };
+      }
+      return {
+        activeAccount: accountId,
+        result: response.data,
+      };
+    } catch (error) {
+      Logger.error("Failed to switch account:", error);
+
+      // Check if this is likely an authentication error
+      if (this.isAuthenticationError(error)) {
+        const authError = new Error("Authentication required to switch accounts. Please authenticate with Interactive Brokers first.");
+        (authError as any).isAuthError = true;
+        throw authError;
+      }
+
+      throw new Error(`Failed to switch to account ${accountId}`);
+    }
+  }
+
+  /**
+   * The session's accounts with alias, type, base currency and paper/live mode,
+   * plus the account that is currently active
+   */
+  async listAccounts(): Promise<any> {
+    try {
+      const { accounts, selectedAccount } = await this.getAccounts();
+      const response = await this.client.get("/portfolio/accounts");
+      const metadata: any[] = Array.isArray(response.data) ? response.data : [];
+      const modes = classifyAccounts(metadata);
+
+      return {
+        activeAccount: selectedAccount,
+        accounts: accounts.map((accountId) => {
+          const details = metadata.find((row) => (row.accountId ?? row.id) === accountId);
+          return {
+            accountId: accountId,
+            alias: details?.accountAlias || details?.displayName || undefined,
+            type: details?.type,
+            currency: details?.currency,
+            mode: accountTradingMode(accountId, modes),
+          };
+        }),
+      };
+    } catch (error) {
+      Logger.error("Failed to list accounts:", error);
+
+      // Check if this is likely an authentication error
+      if (this.isAuthenticationError(error)) {
+        const authError = new Error("Authentication required to list accounts. Please authenticate with Interactive Brokers first.");
+        (authError as any).isAuthError = true;
+        throw authError;
+      }
+
+      throw new Error("Failed to list accounts");
+    }
+  }
+
+  /**
+   * Paper/live classification of the accounts in this session. The account list
+   * does not change while logged in, so it is fetched once.
+   */
+  async getAccountModes(): Promise<AccountMode[]> {
+    if (this.accountModes) {
+      return this.accountModes;
+    }
+
+    try {
+      const response = await this.client.get("/portfolio/accounts");
+      const modes = classifyAccounts(response.data);
+      if (modes.length > 0) {
+        this.accountModes = modes;
+      }
+      return modes;
+    } catch (error) {
+      Logger.error("Failed to get account modes:", error);
+
+      // Check if this is likely an authentication error
+      if (this.isAuthenticationError(error)) {
+        const authError = new Error("Authentication required to determine the account type. Please authenticate with Interactive Brokers first.");
+        (authError as any).isAuthError = true;
+        throw authError;
+      }
+
+      throw new Error("Failed to determine whether the accounts are paper or live");
+    }
+  }
+
+  /**
+   * All positions of an account, read page by page, then filtered and sorted.
+   * With refresh the gateway's portfolio cache is invalidated first, which is
+   * needed when positions changed (e.g. after a fill) since the cache was built.
+   */
+  async getPositions(accountId?: string, options: PositionQuery & { refresh?: boolean } = {}): Promise<any> {
+    try {
+      if (!accountId) {
+        const response = await this.client.get("/portfolio/positions");
+        return response.data;
+      }
+
+      if (options.refresh) {
+        await this.client.post(`/portfolio/${accountId}/positions/invalidate`);
+      }
+
+      const positions: any[] = [];
+      for (let page = 0; page < this.maxPositionPages; page++) {
+        const response = await this.client.get(`/portfolio/${accountId}/positions/${page}`);
+        const rows = Array.isArray(response.data) ? response.data : [];
+        positions.push(...rows);
+        if (rows.length < this.positionsPageSize) {
+          break;
+        }
+      }
+
+      return queryPositions(positions, options);
     } catch (error) {
         Logger.error("Failed to get positions:", error);
       
@@ -322,29 +669,243 @@ export class IBClient {
     }
   }
 
-  async getMarketData(symbol: string, exchange?: string): Promise<any> {
+  /**
+   * List every contract listed under a symbol, so callers can pick the right conid
+   * instead of relying on the first search hit
+   */
+  async searchContracts(symbol: string, secType?: string): Promise<ContractCandidate[]> {
     try {
-      // First, get the contract ID for the symbol
-      const searchResponse = await this.client.get(
-        `/iserver/secdef/search?symbol=${symbol}`
-      );
-      
-      if (!searchResponse.data || searchResponse.data.length === 0) {
-        throw new Error(`Symbol ${symbol} not found`);
+      const candidates = await this.fetchContractCandidates(symbol, secType);
+      return await this.addContractCurrencies(candidates);
+    } catch (error) {
+      Logger.error("Failed to search contracts:", error);
+
+      // Check if this is likely an authentication error
+      if (this.isAuthenticationError(error)) {
+        const authError = new Error(`Authentication required to search contracts for ${symbol}. Please authenticate with Interactive Brokers first.`);
+        (authError as any).isAuthError = true;
+        throw authError;
+      }
+
+      throw new Error(`Failed to search contracts for ${symbol}`);
+    }
+  }
+
+  /**
+   * Option chain of an underlying: expirations within the expiry window, each with the
+   * call and put conids of the strikes closest to the underlying price. One info request
+   * is made per strike and right, a few at a time and up to a fixed total; strikes whose
+   * request failed or was skipped are listed under `incomplete`.
+   */
+  async getOptionChain(symbol: string, query: OptionChainQuery = {}, conid?: number): Promise<any> {
+    try {
+      const moneyness = query.moneyness ?? DEFAULT_OPTION_CHAIN_QUERY.moneyness;
+      const minDays = query.minDaysToExpiry ?? DEFAULT_OPTION_CHAIN_QUERY.minDaysToExpiry;
+      const maxDays = query.maxDaysToExpiry ?? DEFAULT_OPTION_CHAIN_QUERY.maxDaysToExpiry;
+      const maxStrikes = query.maxStrikes ?? DEFAULT_OPTION_CHAIN_QUERY.maxStrikes;
+      const exchange = query.exchange ?? DEFAULT_OPTION_CHAIN_QUERY.exchange;
+      const rights = query.right ? [query.right] : ["C", "P"];
+
+      // The underlying is the search hit that lists option months in its sections
+      const searchResponse = await this.client.get(`/iserver/secdef/search?symbol=${symbol}`);
+      const results: any[] = Array.isArray(searchResponse.data) ? searchResponse.data : [];
+      const underlying = conid !== undefined
+        ? results.find((result) => Number(result.conid) === conid)
+        : results.find((result) => optionMonths(result).length > 0);
+      if (!underlying || optionMonths(underlying).length === 0) {
+        throw new ContractResolutionError(
+          `No listed options found for ${symbol}`,
+          results.map((result) => normalizeSearchResult(result, symbol))
+        );
+      }
+
+      const underlyingConid = Number(underlying.conid);
+      const months = monthsInWindow(optionMonths(underlying), minDays, maxDays);
+
+      const rows = await this.fetchSnapshot([underlyingConid], toFieldIds(["last"]));
+      const last = parseSnapshot(rows.find((row: any) => Number(row.conid) === underlyingConid), ["last"]).values.last;
+      const price = typeof last === "number" ? last : null;
+
+      const requests: OptionInfoRequest[] = [];
+      for (const month of months) {
+        const strikesResponse = await this.client.get(
+          `/iserver/secdef/strikes?conid=${underlyingConid}&sectype=OPT&month=${month}&exchange=${exchange}`
+        );
+        const listed = [...(strikesResponse.data?.call ?? []), ...(strikesResponse.data?.put ?? [])].map(Number);
+        const strikes = selectStrikes(listed, price, moneyness, maxStrikes);
+        requests.push(...strikes.flatMap((strike) => rights.map((right) => ({ month, strike, right }))));
+      }
+
+      const contracts: any[] = [];
+      const incomplete: Array<OptionInfoRequest & { reason: "failed" | "skipped" }> = requests
+        .slice(this.maxOptionInfoRequests)
+        .map((request) => ({ ...request, reason: "skipped" }));
+
+      const allowed = requests.slice(0, this.maxOptionInfoRequests);
+      for (let i = 0; i < allowed.length; i += this.optionInfoBatchSize) {
+        await Promise.all(allowed.slice(i, i + this.optionInfoBatchSize).map(async (request) => {
+          const { month, strike, right } = request;
+          try {
+            const infoResponse = await this.client.get(
+              `/iserver/secdef/info?conid=${underlyingConid}&sectype=OPT&month=${month}&exchange=${exchange}&strike=${strike}&right=${right}`
+            );
+            contracts.push(...(Array.isArray(infoResponse.data) ? infoResponse.data : []));
+          } catch (error) {
+            if (this.isAuthenticationError(error)) {
+              throw error;
+            }
+            Logger.warn(`Failed to get option info for ${symbol} ${month} ${strike}${right}:`, error);
+            incomplete.push({ ...request, reason: "failed" });
+          }
+        }));
+      }
+
+      return {
+        symbol: symbol,
+        underlying: normalizeSearchResult(underlying, symbol),
+        underlyingPrice: price,
+        exchange: exchange,
+        months: months,
+        expirations: buildOptionChain(contracts, minDays, maxDays),
+        incomplete: incomplete,
+      };
+    } catch (error) {
+      Logger.error("Failed to get option chain:", error);
+
+      // Check if this is likely an authentication error
+      if (this.isAuthenticationError(error)) {
+        const authError = new Error(`Authentication required to retrieve the option chain for ${symbol}. Please authenticate with Interactive Brokers first.`);
+        (authError as any).isAuthError = true;
+        throw authError;
+      }
+
+      if (error instanceof ContractResolutionError) {
+        throw new ContractResolutionError(`Failed to retrieve the option chain for ${symbol}: ${error.message}`, error.candidates);
+      }
+
+      throw new Error(`Failed to retrieve the option chain for ${symbol}`);
+    }
+  }
+
+  /**
+   * Switch the active account first when a call targets a different one.
+   * Single-account sessions never need to switch.
+   */
+  private async ensureActiveAccount(accountId: string): Promise<void> {
+    const { accounts, selectedAccount } = await this.getAccounts();
+    if (accounts.length <= 1 || selectedAccount === accountId) {
+      return;
+    }
+    Logger.log(`[ACCOUNT] Switching active account from ${selectedAccount} to ${accountId}`);
+    await this.switchAccount(accountId);
+  }
+
+  private async fetchContractCandidates(symbol: string, secType?: string): Promise<ContractCandidate[]> {
+    let url = `/iserver/secdef/search?symbol=${symbol}`;
+    if (secType) {
+      url += `&secType=${secType}`;
+    }
+
+    const searchResponse = await this.client.get(url);
+    const results = Array.isArray(searchResponse.data) ? searchResponse.data : [];
+    return results.map((result: any) => normalizeSearchResult(result, symbol));
+  }
+
+  /**
+   * Secdef search results carry no currency, so look it up per contract.
+   * A failed lookup leaves the currency unset rather than failing the whole search.
+   */
+  private async addContractCurrencies(candidates: ContractCandidate[]): Promise<ContractCandidate[]> {
+    const detailed: ContractCandidate[] = [];
+    for (let i = 0; i < candidates.length; i += this.contractLookupBatchSize) {
+      detailed.push(...await Promise.all(candidates.slice(i, i + this.contractLookupBatchSize).map(async (candidate) => {
+        try {
+          const infoResponse = await this.client.get(`/iserver/contract/${candidate.conid}/info`);
+          return {
+            ...candidate,
+            currency: infoResponse.data?.currency || candidate.currency,
+            exchange: candidate.exchange || infoResponse.data?.exchange,
+          };
+        } catch (error) {
+          Logger.warn(`Failed to get contract info for conid ${candidate.conid}:`, error);
+          return candidate;
+        }
+      })));
+    }
+    return detailed;
+  }
+
+  /**
+   * Resolve a symbol (or explicit conid) to a single contract.
+   * Strict resolution refuses to pick between several matching contracts, and
+   * refuses an explicit conid that is not a stock of the symbol.
+   */
+  private async resolveContract(symbol: string, filter: ContractFilter = {}, strict = true): Promise<ContractCandidate> {
+    if (filter.conid !== undefined) {
+      const conid = Number(filter.conid);
+      if (!strict) {
+        return { conid, symbol };
+      }
+
+      // Risk rules work on the symbol, so it has to describe the contract that is traded
+      const infoResponse = await this.client.get(`/iserver/contract/${conid}/info`);
+      const info = infoResponse.data ?? {};
+      const contractSymbol = String(info.symbol ?? "").toUpperCase();
+      if (contractSymbol !== symbol.toUpperCase()) {
+        throw new ContractResolutionError(
+          `Contract ${conid} is ${contractSymbol || "an unknown symbol"}, not ${symbol}; check the symbol and conid`
+        );
+      }
+
+      // Options and futures report their underlying's symbol and trade with a multiplier
+      // the risk limits do not apply, so only stock conids are accepted for now
+      const secType = String(info.instrument_type ?? "").toUpperCase();
+      if (secType !== "STK") {
+        throw new ContractResolutionError(
+          `Contract ${conid} has security type ${secType || "unknown"}; only stock (STK) conids can be traded`
+        );
       }
 
-      const contract = searchResponse.data[0];
+      return {
+        conid,
+        symbol: info.symbol,
+        companyName: info.company_name || undefined,
+        secType: info.instrument_type || undefined,
+        exchange: info.exchange || undefined,
+        currency: info.currency || undefined,
+      };
+    }
+
+    let candidates = await this.fetchContractCandidates(symbol, filter.secType);
+    if (filter.currency) {
+      candidates = await this.addContractCurrencies(candidates);
+    }
+
+    return selectContract(symbol, candidates, filter, strict);
+  }
+
+  async getMarketData(
+    symbol: string,
+    filter: ContractFilter = {},
+    fields: MarketDataFieldName[] = DEFAULT_MARKET_DATA_FIELDS
+  ): Promise<any> {
+    try {
+      // Market data is read-only, so an ambiguous symbol falls back to the first match
+      const contract = await this.resolveContract(symbol, filter, false);
       const conid = contract.conid;
 
-      // Get market data snapshot
-      const response = await this.client.get(
-        `/iserver/marketdata/snapshot?conids=${conid}&fields=31,84,86,87,88,85,70,71,72,73,74,75,76,77,78`
-      );
+      // Get market data snapshot, waiting for the gateway to prime it if needed
+      const rows = await this.fetchSnapshot([conid], toFieldIds(fields));
+      const snapshot = rows.find((row: any) => Number(row.conid) === conid);
+      const { values, units } = parseSnapshot(snapshot, fields);
 
       return {
         symbol: symbol,
         contract: contract,
-        marketData: response.data
+        marketData: values,
+        units: units,
+        missingFields: fields.filter((name) => values[name] === null),
+        updated: snapshot?._updated ? new Date(Number(snapshot._updated)).toISOString() : undefined
       };
     } catch (error) {
       Logger.error("Failed to get market data:", error);
@@ -355,11 +916,161 @@ export class IBClient {
         (authError as any).isAuthError = true;
         throw authError;
       }
+
+      if (error instanceof ContractResolutionError) {
+        throw new ContractResolutionError(`Failed to retrieve market data for ${symbol}: ${error.message}`, error.candidates);
+      }
       
       throw new Error(`Failed to retrieve market data for ${symbol}`);
     }
   }
 
+  /**
+   * Get snapshots for several symbols at once. Contracts are resolved a few at a time
+   * to stay within the gateway's pacing limits, and snapshots are requested in batches
+   * of conids; a symbol that cannot be resolved gets its own error instead of failing
+   * the whole call.
+   */
+  async getQuotes(
+    requests: QuoteRequest[],
+    fields: MarketDataFieldName[] = DEFAULT_MARKET_DATA_FIELDS
+  ): Promise<any> {
+    try {
+      const resolved: Array<{ symbol: string; contract?: ContractCandidate; error?: string }> = [];
+      for (let i = 0; i < requests.length; i += this.contractLookupBatchSize) {
+        resolved.push(...await Promise.all(requests.slice(i, i + this.contractLookupBatchSize).map(async (request) => {
+          try {
+            const { symbol, ...filter } = request;
+            return { symbol, contract: await this.resolveContract(symbol, filter, false) };
+          } catch (error) {
+            if (this.isAuthenticationError(error)) {
+              throw error;
+            }
+            return { symbol: request.symbol, error: isError(error) ? error.message : String(error) };
+          }
+        })));
+      }
+
+      const conids = [...new Set(resolved.flatMap((item) => item.contract ? [item.contract.conid] : []))];
+      const fieldIds = toFieldIds(fields);
+      const rows: any[] = [];
+      for (let i = 0; i < conids.length; i += this.snapshotBatchSize) {
+        rows.push(...await this.fetchSnapshot(conids.slice(i, i + this.snapshotBatchSize), fieldIds));
+      }
+
+      let units = {};
+      const quotes = resolved.map((item) => {
+        const contract = item.contract;
+        if (!contract) {
+          return { symbol: item.symbol, error: item.error };
+        }
+
+        const snapshot = rows.find((row) => Number(row.conid) === contract.conid);
+        const parsed = parseSnapshot(snapshot, fields);
+        units = parsed.units;
+        return {
+          symbol: item.symbol,
+          contract: item.contract,
+          marketData: parsed.values,
+          missingFields: fields.filter((name) => parsed.values[name] === null),
+          updated: snapshot?._updated ? new Date(Number(snapshot._updated)).toISOString() : undefined
+        };
+      });
+
+      return {
+        units: units,
+        quotes: quotes
+      };
+    } catch (error) {
+      Logger.error("Failed to get quotes:", error);
+      
+      // Check if this is likely an authentication error
+      if (this.isAuthenticationError(error)) {
+        const authError = new Error("Authentication required to retrieve quotes. Please authenticate with Interactive Brokers first.");
+        (authError as any).isAuthError = true;
+        throw authError;
+      }
+      
+      throw new Error("Failed to retrieve quotes");
+    }
+  }
+
+  /**
+   * Fetch a market data snapshot. The first request for a contract usually only
+   * subscribes it and returns `conid`/`_updated`, so re-poll with backoff until
+   * every requested field is present or the snapshot deadline passes.
+   */
+  private async fetchSnapshot(conids: number[], fieldIds: string[]): Promise<any[]> {
+    const deadline = Date.now() + this.snapshotTimeoutMs;
+    let pollInterval = this.snapshotPollIntervalMs;
+    let attempt = 0;
+
+    while (true) {
+      attempt++;
+      const response = await this.client.get(
+        `/iserver/marketdata/snapshot?conids=${conids.join(",")}&fields=${fieldIds.join(",")}`
+      );
+      const rows: any[] = Array.isArray(response.data) ? response.data : [];
+
+      const primed = conids.every((conid) => {
+        const row = rows.find((candidate) => Number(candidate.conid) === conid);
+        return row !== undefined && fieldIds.every((id) => row[id] !== undefined);
+      });
+
+      if (primed || Date.now() + pollInterval > deadline) {
+        Logger.log(`[SNAPSHOT] ${primed ? "Complete" : "Incomplete"} snapshot after ${attempt} request(s) for conids ${conids.join(",")}`);
+        return rows;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, pollInterval));
+      pollInterval = Math.min(pollInterval * 2, this.snapshotMaxPollIntervalMs);
+    }
+  }
+
+  async getHistoricalData(symbol: string, options: HistoricalDataOptions, filter: ContractFilter = {}): Promise<any> {
+    try {
+      // Historical data is read-only, so an ambiguous symbol falls back to the first match
+      const contract = await this.resolveContract(symbol, filter, false);
+
+      let url = `/iserver/marketdata/history?conid=${contract.conid}&period=${options.period}&bar=${options.bar}`;
+      if (options.outsideRth !== undefined) {
+        url += `&outsideRth=${options.outsideRth}`;
+      }
+      if (options.startTime) {
+        url += `&startTime=${options.startTime}`;
+      }
+
+      const response = await this.client.get(url);
+      const bars = normalizeHistoricalBars(response.data?.data);
+
+      return {
+        symbol: symbol,
+        contract: contract,
+        period: options.period,
+        bar: options.bar,
+        outsideRth: options.outsideRth ?? false,
+        startTime: options.startTime,
+        barCount: bars.length,
+        bars: bars
+      };
+    } catch (error) {
+      Logger.error("Failed to get historical data:", error);
+      
+      // Check if this is likely an authentication error
+      if (this.isAuthenticationError(error)) {
+        const authError = new Error(`Authentication required to retrieve historical data for ${symbol}. Please authenticate with Interactive Brokers first.`);
+        (authError as any).isAuthError = true;
+        throw authError;
+      }
+
+      if (error instanceof ContractResolutionError) {
+        throw new ContractResolutionError(`Failed to retrieve historical data for ${symbol}: ${error.message}`, error.candidates);
+      }
+      
+      throw new Error(`Failed to retrieve historical data for ${symbol}`);
+    }
+  }
+
   private isAuthenticationError(error: any): boolean {
     if (!error) return false;
     
@@ -385,64 +1096,203 @@ export class IBClient {
     );
   }
 
-  async placeOrder(orderRequest: OrderRequest): Promise<any> {
+  /**
+   * Build the gateway order payload for a single order request
+   */
+  private buildOrder(orderRequest: OrderRequest, conid: number): any {
+    const order = {
+      conid: Number(conid), // Ensure conid is number
+      orderType: orderRequest.orderType,
+      side: orderRequest.action,
+      quantity: Number(orderRequest.quantity), // Ensure quantity is number
+      tif: orderRequest.tif || "DAY", // Time in force
+    };
+
+    // Good-till-date orders carry their expiry
+    if (orderRequest.tif === "GTD" && orderRequest.expiry) {
+      (order as any).goodTillDate = orderRequest.expiry;
+    }
+
+    // Allow execution in pre-market and after-hours sessions
+    if (orderRequest.outsideRth !== undefined) {
+      (order as any).outsideRTH = orderRequest.outsideRth;
+    }
+
+    // Add limit price for limit-style orders
+    if (["LMT", "STOP_LIMIT", "TRAILLMT", "LOC"].includes(orderRequest.orderType) && orderRequest.price !== undefined) {
+      (order as any).price = Number(orderRequest.price);
+    }
+
+    // Add stop price for stop-style orders
+    if (["STP", "STOP_LIMIT"].includes(orderRequest.orderType) && orderRequest.stopPrice !== undefined) {
+      (order as any).auxPrice = Number(orderRequest.stopPrice);
+    }
+
+    // Add trailing offset for trailing orders
+    if (["TRAIL", "TRAILLMT"].includes(orderRequest.orderType) && orderRequest.trailingAmt !== undefined) {
+      (order as any).trailingAmt = Number(orderRequest.trailingAmt);
+      (order as any).trailingType = orderRequest.trailingType;
+    }
+
+    return order;
+  }
+
+  async placeOrder(orderRequest: OrderRequest): Promise<SubmissionOutcome> {
     try {
-      // First, get the contract ID for the symbol
-      const searchResponse = await this.client.get(
-        `/iserver/secdef/search?symbol=${orderRequest.symbol}`
+      await this.ensureActiveAccount(orderRequest.accountId);
+
+      // Resolve the contract, refusing to trade when the symbol is ambiguous
+      const contract = await this.resolveContract(orderRequest.symbol, {
+        conid: orderRequest.conid,
+        secType: orderRequest.secType,
+        exchange: orderRequest.exchange,
+        currency: orderRequest.currency,
+      });
+      const order = this.buildOrder(orderRequest, contract.conid);
+
+      // Place the order
+      const response = await this.client.post(
+        `/iserver/account/${orderRequest.accountId}/orders`,
+        {
+          orders: [order],
+        }
       );
+
+      return await this.submitOrderReplies(response.data, orderRequest.suppressConfirmations);
+    } catch (error) {
+      Logger.error("Failed to place order:", error);
       
-      if (!searchResponse.data || searchResponse.data.length === 0) {
-        throw new Error(`Symbol ${orderRequest.symbol} not found`);
+      // Check if this is likely an authentication error
+      if (this.isAuthenticationError(error)) {
+        const authError = new Error("Authentication required to place orders. Please authenticate with Interactive Brokers first.");
+        (authError as any).isAuthError = true;
+        throw authError;
       }
 
-      const contract = searchResponse.data[0];
-      const conid = contract.conid;
+      if (error instanceof ContractResolutionError) {
+        throw new ContractResolutionError(`Failed to place order: ${error.message}`, error.candidates);
+      }
+      
+      throw new Error("Failed to place order");
+    }
+  }
+
+  /**
+   * Ask the gateway what an order would cost (commission, margin and equity impact)
+   * without placing it
+   */
+  async previewOrder(orderRequest: OrderRequest): Promise<any> {
+    try {
+      await this.ensureActiveAccount(orderRequest.accountId);
+
+      const contract = await this.resolveContract(orderRequest.symbol, {
+        conid: orderRequest.conid,
+        secType: orderRequest.secType,
+        exchange: orderRequest.exchange,
+        currency: orderRequest.currency,
+      });
+      const order = this.buildOrder(orderRequest, contract.conid);
+
+      const response = await this.client.post(
+        `/iserver/account/${orderRequest.accountId}/orders/whatif`,
+        {
+          orders: [order],
+        }
+      );
+
+      return {
+        symbol: orderRequest.symbol,
+        contract: contract,
+        order: order,
+        preview: normalizeWhatIf(response.data)
+      };
+    } catch (error) {
+      Logger.error("Failed to preview order:", error);
+      
+      // Check if this is likely an authentication error
+      if (this.isAuthenticationError(error)) {
+        const authError = new Error("Authentication required to preview orders. Please authenticate with Interactive Brokers first.");
+        (authError as any).isAuthError = true;
+        throw authError;
+      }
+
+      if (error instanceof ContractResolutionError) {
+        throw new ContractResolutionError(`Failed to preview order: ${error.message}`, error.candidates);
+      }
+      
+      throw new Error("Failed to preview order");
+    }
+  }
 
-      // Prepare order object
-      const order = {
-        conid: Number(conid), // Ensure conid is number
+  /**
+   * Place a parent entry order with an attached take-profit limit and stop-loss
+   * in a single request. Children reference the parent through its cOID, so IB
+   * treats the three legs as one group.
+   */
+  async placeBracketOrder(orderRequest: BracketOrderRequest): Promise<any> {
+    try {
+      await this.ensureActiveAccount(orderRequest.accountId);
+
+      // Resolve the contract, refusing to trade when the symbol is ambiguous
+      const contract = await this.resolveContract(orderRequest.symbol, {
+        conid: orderRequest.conid,
+        secType: orderRequest.secType,
+        exchange: orderRequest.exchange,
+        currency: orderRequest.currency,
+      });
+      const conid = Number(contract.conid);
+      const quantity = Number(orderRequest.quantity);
+      const exitSide = orderRequest.action === "BUY" ? "SELL" : "BUY";
+      const parentId = `bracket-${randomUUID()}`;
+
+      const parent: any = {
+        conid: conid,
+        cOID: parentId,
         orderType: orderRequest.orderType,
         side: orderRequest.action,
-        quantity: Number(orderRequest.quantity), // Ensure quantity is number
-        tif: "DAY", // Time in force
+        quantity: quantity,
+        tif: "DAY",
       };
-
-      // Add price for limit orders
       if (orderRequest.orderType === "LMT" && orderRequest.price !== undefined) {
-        (order as any).price = Number(orderRequest.price);
+        parent.price = Number(orderRequest.price);
       }
 
-      // Add stop price for stop orders
-      if (orderRequest.orderType === "STP" && orderRequest.stopPrice !== undefined) {
-        (order as any).auxPrice = Number(orderRequest.stopPrice);
-      }
+      const takeProfit = {
+        conid: conid,
+        cOID: `${parentId}-tp`,
+        parentId: parentId,
+        orderType: "LMT",
+        side: exitSide,
+        quantity: quantity,
+        price: Number(orderRequest.takeProfitPrice),
+        tif: "DAY",
+      };
+
+      const stopLoss = {
+        conid: conid,
+        cOID: `${parentId}-sl`,
+        parentId: parentId,
+        orderType: "STP",
+        side: exitSide,
+        quantity: quantity,
+        auxPrice: Number(orderRequest.stopLossPrice),
+        tif: "DAY",
+      };
 
-      // Place the order
       const response = await this.client.post(
         `/iserver/account/${orderRequest.accountId}/orders`,
         {
-          orders: [order],
+          orders: [parent, takeProfit, stopLoss],
         }
       );
 
-      // Check if we received confirmation messages that need to be handled
-      if (response.data && Array.isArray(response.data) && response.data.length > 0) {
-        const firstResponse = response.data[0];
-        
-        // Check if this is a confirmation message response
-        if (firstResponse.id && firstResponse.message && firstResponse.messageIds && orderRequest.suppressConfirmations) {
-          Logger.log("Order confirmation received, automatically confirming...", firstResponse);
-          
-          // Automatically confirm all messages
-          const confirmResponse = await this.confirmOrder(firstResponse.id, firstResponse.messageIds);
-          return confirmResponse;
-        }
-      }
-
-      return response.data;
+      const result = await this.submitOrderReplies(response.data, orderRequest.suppressConfirmations);
+      return {
+        parentOrderId: parentId,
+        result: result
+      };
     } catch (error) {
-      Logger.error("Failed to place order:", error);
+      Logger.error("Failed to place bracket order:", error);
       
       // Check if this is likely an authentication error
       if (this.isAuthenticationError(error)) {
@@ -450,23 +1300,48 @@ export class IBClient {
         (authError as any).isAuthError = true;
         throw authError;
       }
+
+      if (error instanceof ContractResolutionError) {
+        throw new ContractResolutionError(`Failed to place bracket order: ${error.message}`, error.candidates);
+      }
       
-      throw new Error("Failed to place order");
+      throw new Error("Failed to place bracket order");
     }
   }
 
+  /**
+   * Walk the replies to an order submission or cancellation. Without suppressConfirmations
+   * the first message is handed back for confirm_order; with it, messages in the
+   * auto-confirm list are confirmed and any other message rejects the request.
+   */
+  private async submitOrderReplies(data: any, suppressConfirmations?: boolean): Promise<SubmissionOutcome> {
+    const policy: ReplyPolicy = suppressConfirmations
+      ? { autoConfirm: this.autoConfirmMessageIds, onUnlisted: "reject" }
+      : { autoConfirm: [], onUnlisted: "ask" };
+
+    const outcome = await walkReplyChain(
+      data,
+      (replyId, messageIds, confirmed) => this.confirmOrder(replyId, messageIds, confirmed),
+      policy,
+      DEFAULT_MAX_REPLY_CHAIN_LENGTH
+    );
+    Logger.log(`Order submission ${outcome.status} after ${outcome.messages.length} reply message(s)`);
+    return outcome;
+  }
+
   /**
    * Confirm an order by replying to confirmation messages
    * @param replyId The reply ID from the confirmation response
    * @param messageIds Array of message IDs to confirm
+   * @param confirmed false declines the messages, which cancels the pending order
    * @returns The confirmation response
    */
-  async confirmOrder(replyId: string, messageIds: string[]): Promise<any> {
+  async confirmOrder(replyId: string, messageIds: string[], confirmed = true): Promise<any> {
     try {
-      Logger.log(`Confirming order with reply ID ${replyId} and message IDs:`, messageIds);
+      Logger.log(`${confirmed ? "Confirming" : "Declining"} order with reply ID ${replyId} and message IDs:`, messageIds);
       
       const response = await this.client.post(`/iserver/reply/${replyId}`, {
-        confirmed: true,
+        confirmed: confirmed,
         messageIds: messageIds
       });
 
@@ -486,6 +1361,179 @@ export class IBClient {
     }
   }
 
+  /**
+   * Confirm messages handed back as needs_confirmation and walk the rest of the
+   * chain. Any further message is handed back again rather than confirmed.
+   */
+  async confirmOrderReplies(replyId: string, messageIds: string[]): Promise<SubmissionOutcome> {
+    const reply = await this.confirmOrder(replyId, messageIds);
+    const outcome = await walkReplyChain(
+      reply,
+      (nextReplyId, nextMessageIds, confirmed) => this.confirmOrder(nextReplyId, nextMessageIds, confirmed),
+      { autoConfirm: [], onUnlisted: "ask" },
+      DEFAULT_MAX_REPLY_CHAIN_LENGTH
+    );
+    Logger.log(`Order confirmation ${outcome.status} after ${outcome.messages.length} further reply message(s)`);
+    return outcome;
+  }
+
+  async cancelOrder(accountId: string, orderId: string, suppressConfirmations?: boolean): Promise<any> {
+    try {
+      await this.ensureActiveAccount(accountId);
+      const response = await this.client.delete(`/iserver/account/${accountId}/order/${orderId}`);
+      return await this.submitOrderReplies(response.data, suppressConfirmations);
+    } catch (error) {
+      Logger.error("Failed to cancel order:", error);
+      
+      // Check if this is likely an authentication error
+      if (this.isAuthenticationError(error)) {
+        const authError = new Error(`Authentication required to cancel order ${orderId}. Please authenticate with Interactive Brokers first.`);
+        (authError as any).isAuthError = true;
+        throw authError;
+      }
+      
+      throw new Error(`Failed to cancel order ${orderId}`);
+    }
+  }
+
+  /**
+   * Cancel every working order of an account, optionally only those for one symbol.
+   * Each cancellation is reported separately so one failure does not hide the rest.
+   */
+  async cancelAllOrders(accountId: string, symbol?: string, suppressConfirmations?: boolean): Promise<any> {
+    try {
+      await this.ensureActiveAccount(accountId);
+      const liveOrders = await this.getOrders();
+      const orders: any[] = Array.isArray(liveOrders?.orders) ? liveOrders.orders : [];
+
+      const targets = orders.filter((order) =>
+        order.acct === accountId &&
+        !isTerminalOrderStatus(order.status) &&
+        (!symbol || String(order.ticker).toUpperCase() === symbol.toUpperCase())
+      );
+
+      const results = [];
+      for (const order of targets) {
+        const orderId = String(order.orderId);
+        try {
+          const response = await this.client.delete(`/iserver/account/${accountId}/order/${orderId}`);
+          results.push({
+            orderId: orderId,
+            symbol: order.ticker,
+            result: await this.submitOrderReplies(response.data, suppressConfirmations)
+          });
+        } catch (error) {
+          if (this.isAuthenticationError(error)) {
+            throw error;
+          }
+          results.push({
+            orderId: orderId,
+            symbol: order.ticker,
+            error: isError(error) ? error.message : String(error)
+          });
+        }
+      }
+
+      return {
+        accountId: accountId,
+        symbol: symbol,
+        cancelled: results.filter((result) => result.result?.status === "placed").length,
+        failed: results.filter((result) => "error" in result || result.result?.status === "rejected").length,
+        results: results
+      };
+    } catch (error) {
+      Logger.error("Failed to cancel orders:", error);
+      
+      // Check if this is likely an authentication error
+      if (this.isAuthenticationError(error)) {
+        const authError = new Error("Authentication required to cancel orders. Please authenticate with Interactive Brokers first.");
+        (authError as any).isAuthError = true;
+        throw authError;
+      }
+      
+      throw new Error(`Failed to cancel orders for account ${accountId}`);
+    }
+  }
+
+  /**
+   * Amend a working order. The gateway expects the full order, so unchanged
+   * fields are carried over from the current order status. Trailing and
+   * good-till-date orders are refused when the status does not report the
+   * trailing offset or expiry needed to rebuild them.
+   */
+  async modifyOrder(accountId: string, orderId: string, modification: OrderModification): Promise<any> {
+    try {
+      await this.ensureActiveAccount(accountId);
+      const before = await this.getOrderStatus(orderId);
+
+      const order: any = {
+        conid: Number(before.conid),
+        orderType: statusOrderType(before),
+        side: statusOrderSide(before),
+        quantity: Number(modification.quantity ?? before.total_size ?? before.size),
+        tif: modification.tif ?? before.tif,
+      };
+
+      const price = modification.price ?? before.limit_price;
+      if (price !== undefined && price !== null && price !== "") {
+        order.price = Number(price);
+      }
+
+      const auxPrice = modification.auxPrice ?? before.stop_price;
+      if (auxPrice !== undefined && auxPrice !== null && auxPrice !== "") {
+        order.auxPrice = Number(auxPrice);
+      }
+
+      const outsideRth = before.outside_rth ?? before.outsideRTH;
+      if (outsideRth !== undefined && outsideRth !== null && outsideRth !== "") {
+        order.outsideRTH = outsideRth === true || String(outsideRth).toLowerCase() === "true";
+      }
+
+      if (order.tif === "GTD") {
+        const goodTillDate = before.good_till_date ?? before.goodTillDate;
+        if (!goodTillDate) {
+          throw new OrderModificationError(`Order ${orderId} is good-till-date but its expiry is not reported; cancel and re-place it instead`);
+        }
+        order.goodTillDate = String(goodTillDate);
+      }
+
+      if (["TRAIL", "TRAILLMT"].includes(order.orderType)) {
+        const trailingAmt = before.trailing_amount ?? before.trailingAmt;
+        if (trailingAmt === undefined || trailingAmt === null || trailingAmt === "") {
+          throw new OrderModificationError(`Order ${orderId} is a trailing order but its trailing amount is not reported; cancel and re-place it instead`);
+        }
+        order.trailingAmt = Number(trailingAmt);
+        order.trailingType = before.trailing_type ?? before.trailingType;
+      }
+
+      const response = await this.client.post(`/iserver/account/${accountId}/order/${orderId}`, order);
+      const result = await this.submitOrderReplies(response.data, modification.suppressConfirmations);
+      const after = await this.getOrderStatus(orderId);
+
+      return {
+        orderId: orderId,
+        before: before,
+        after: after,
+        result: result
+      };
+    } catch (error) {
+      Logger.error("Failed to modify order:", error);
+      
+      // Check if this is likely an authentication error
+      if (this.isAuthenticationError(error)) {
+        const authError = new Error(`Authentication required to modify order ${orderId}. Please authenticate with Interactive Brokers first.`);
+        (authError as any).isAuthError = true;
+        throw authError;
+      }
+      
+      if (error instanceof OrderModificationError) {
+        throw error;
+      }
+
+      throw new Error(`Failed to modify order ${orderId}`);
+    }
+  }
+
   async getOrderStatus(orderId: string): Promise<any> {
     try {
       const response = await this.client.get(`/iserver/account/orders/${orderId}`);
@@ -504,6 +1552,49 @@ export class IBClient {
     }
   }
 
+  /**
+   * Poll an order with backoff until it is Filled, Cancelled, Inactive or Rejected,
+   * or until the timeout passes. Status lookups that fail are not retried.
+   */
+  async waitForOrder(orderId: string, timeoutMs = 30000): Promise<OrderFill & { timedOut: boolean; elapsedMs: number }> {
+    const started = Date.now();
+    const deadline = started + timeoutMs;
+    let pollInterval = this.orderPollIntervalMs;
+
+    while (true) {
+      const fill = summarizeOrderStatus(orderId, await this.getOrderStatus(orderId));
+
+      if (fill.terminal || Date.now() + pollInterval > deadline) {
+        Logger.log(`[ORDER] Order ${orderId} is ${fill.status ?? "unknown"} after ${Date.now() - started}ms`);
+        return { ...fill, timedOut: !fill.terminal, elapsedMs: Date.now() - started };
+      }
+
+      await new Promise(resolve => setTimeout(resolve, pollInterval));
+      pollInterval = Math.min(pollInterval * 2, this.orderMaxPollIntervalMs);
+    }
+  }
+
+  /**
+   * Executions of the last `days` days (the gateway keeps at most 7), grouped by order
+   */
+  async getTrades(days = 1, accountId?: string): Promise<OrderTrades[]> {
+    try {
+      const response = await this.client.get(`/iserver/account/trades?days=${days}`);
+      return groupTradesByOrder(response.data, accountId);
+    } catch (error) {
+      Logger.error("Failed to get trades:", error);
+      
+      // Check if this is likely an authentication error
+      if (this.isAuthenticationError(error)) {
+        const authError = new Error("Authentication required to retrieve trades. Please authenticate with Interactive Brokers first.");
+        (authError as any).isAuthError = true;
+        throw authError;
+      }
+      
+      throw new Error("Failed to retrieve trades");
+    }
+  }
+
   async getOrders(accountId?: string): Promise<any> {
     try {
       let url = "/iserver/account/orders";
@@ -2,6 +2,7 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
 import { IBClient } from "./ib-client.js";
+import { parseMessageIds } from "./order-submission.js";
 import { IBGatewayManager } from "./gateway-manager.js";
 import { config } from "./config.js";
 import { registerTools } from "./tools.js";
@@ -37,11 +38,21 @@ function parseArgs(): z.infer<typeof configSchema> {
           Logger.debug(`🔍 Set IB_PASSWORD_AUTH to: [REDACTED]`);
           i++;
           break;
+        case 'ib-account':
+          args.IB_ACCOUNT = nextArg;
+          Logger.debug(`🔍 Set IB_ACCOUNT to: ${nextArg}`);
+          i++;
+          break;
         case 'ib-auth-timeout':
           args.IB_AUTH_TIMEOUT = parseInt(nextArg);
           Logger.debug(`🔍 Set IB_AUTH_TIMEOUT to: ${nextArg}`);
           i++;
           break;
+        case 'ib-snapshot-timeout':
+          args.IB_SNAPSHOT_TIMEOUT = parseInt(nextArg);
+          Logger.debug(`🔍 Set IB_SNAPSHOT_TIMEOUT to: ${nextArg}`);
+          i++;
+          break;
         case 'ib-headless-mode':
           // Support both --ib-headless-mode (boolean flag) and --ib-headless-mode=true/false
           if (nextArg && !nextArg.startsWith('--')) {
@@ -53,6 +64,17 @@ function parseArgs(): z.infer<typeof configSchema> {
             Logger.debug(`🔍 Set IB_HEADLESS_MODE to: true (flag only)`);
           }
           break;
+        case 'ib-read-only':
+          // Support both --ib-read-only (boolean flag) and --ib-read-only true/false
+          if (nextArg && !nextArg.startsWith('--')) {
+            args.IB_READ_ONLY = nextArg.toLowerCase() === 'true';
+            Logger.debug(`🔍 Set IB_READ_ONLY to: ${nextArg.toLowerCase() === 'true'} (from arg: ${nextArg})`);
+            i++;
+          } else {
+            args.IB_READ_ONLY = true;
+            Logger.debug(`🔍 Set IB_READ_ONLY to: true (flag only)`);
+          }
+          break;
         case 'ib-paper-trading':
           // Support both --ib-paper-trading (boolean flag) and --ib-paper-trading=true/false
           if (nextArg && !nextArg.startsWith('--')) {
@@ -82,14 +104,26 @@ function parseArgs(): z.infer<typeof configSchema> {
           args.IB_PASSWORD_AUTH = value;
           Logger.debug(`🔍 Set IB_PASSWORD_AUTH to: [REDACTED]`);
           break;
+        case 'ib-account':
+          args.IB_ACCOUNT = value;
+          Logger.debug(`🔍 Set IB_ACCOUNT to: ${value}`);
+          break;
         case 'ib-auth-timeout':
           args.IB_AUTH_TIMEOUT = parseInt(value);
           Logger.debug(`🔍 Set IB_AUTH_TIMEOUT to: ${value}`);
           break;
+        case 'ib-snapshot-timeout':
+          args.IB_SNAPSHOT_TIMEOUT = parseInt(value);
+          Logger.debug(`🔍 Set IB_SNAPSHOT_TIMEOUT to: ${value}`);
+          break;
         case 'ib-headless-mode':
           args.IB_HEADLESS_MODE = value.toLowerCase() === 'true';
           Logger.debug(`🔍 Set IB_HEADLESS_MODE to: ${value.toLowerCase() === 'true'} (from value: ${value})`);
           break;
+        case 'ib-read-only':
+          args.IB_READ_ONLY = value.toLowerCase() === 'true';
+          Logger.debug(`🔍 Set IB_READ_ONLY to: ${value.toLowerCase() === 'true'} (from value: ${value})`);
+          break;
         case 'ib-paper-trading':
           args.IB_PAPER_TRADING = value.toLowerCase() === 'true';
           Logger.debug(`🔍 Set IB_PAPER_TRADING to: ${value.toLowerCase() === 'true'} (from value: ${value})`);
@@ -110,9 +144,35 @@ export const configSchema = z.object({
   IB_PASSWORD_AUTH: z.string().optional(),
   IB_AUTH_TIMEOUT: z.number().optional(),
   IB_HEADLESS_MODE: z.boolean().optional(),
+
+  // Default account for account and trading tools
+  IB_ACCOUNT: z.string().optional(),
   
   // Paper trading configuration
   IB_PAPER_TRADING: z.boolean().optional(),
+  IB_ALLOW_LIVE_TRADING: z.boolean().optional(),
+
+  // Read-only mode (no trading tools)
+  IB_READ_ONLY: z.boolean().optional(),
+
+  // Order approval configuration
+  IB_REQUIRE_APPROVAL: z.boolean().optional(),
+  IB_APPROVAL_TTL: z.number().optional(),
+
+  // Order reply messages confirmed automatically with suppressConfirmations
+  IB_AUTO_CONFIRM_MESSAGE_IDS: z.union([z.string(), z.array(z.string())]).optional(),
+
+  // Market data configuration
+  IB_SNAPSHOT_TIMEOUT: z.number().optional(),
+
+  // Pre-trade risk limits
+  IB_RISK_MAX_ORDER_NOTIONAL: z.number().positive().optional(),
+  IB_RISK_MAX_ORDER_QUANTITY: z.number().positive().optional(),
+  IB_RISK_MAX_DAILY_ORDERS: z.number().int().positive().optional(),
+  IB_RISK_MAX_POSITION_SIZE: z.number().positive().optional(),
+  IB_RISK_SYMBOL_ALLOWLIST: z.union([z.string(), z.array(z.string())]).optional(),
+  IB_RISK_SYMBOL_DENYLIST: z.union([z.string(), z.array(z.string())]).optional(),
+  IB_RISK_ALLOW_MARKET_ORDERS: z.boolean().optional(),
 
 });
 
@@ -222,6 +282,11 @@ function IBMCP({ config: userConfig }: { config: z.infer<typeof configSchema> })
   const ibClient = new IBClient({
     host: mergedConfig.IB_GATEWAY_HOST,
     port: mergedConfig.IB_GATEWAY_PORT,
+    snapshotTimeoutMs: mergedConfig.IB_SNAPSHOT_TIMEOUT,
+    readOnly: mergedConfig.IB_READ_ONLY,
+    autoConfirmMessageIds: mergedConfig.IB_AUTO_CONFIRM_MESSAGE_IDS
+      ? parseMessageIds(mergedConfig.IB_AUTO_CONFIRM_MESSAGE_IDS)
+      : undefined,
   });
 
   // Initialize gateway on first server creation and update client port
@@ -271,7 +336,9 @@ if (isMainModule) {
     IB_USERNAME: process.env.IB_USERNAME,
     IB_PASSWORD_AUTH: process.env.IB_PASSWORD_AUTH || process.env.IB_PASSWORD,
     IB_AUTH_TIMEOUT: process.env.IB_AUTH_TIMEOUT ? parseInt(process.env.IB_AUTH_TIMEOUT) : undefined,
+    IB_SNAPSHOT_TIMEOUT: process.env.IB_SNAPSHOT_TIMEOUT ? parseInt(process.env.IB_SNAPSHOT_TIMEOUT) : undefined,
     IB_HEADLESS_MODE: process.env.IB_HEADLESS_MODE === 'true',
+    IB_READ_ONLY: process.env.IB_READ_ONLY === 'true',
 
   };
   
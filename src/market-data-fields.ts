@@ -0,0 +1,103 @@
+// market-data-fields.ts
+// Catalog of Client Portal snapshot field ids, so tools can ask for and return
+// named values instead of the gateway's numeric field codes.
+
+export type MarketDataFieldUnit = "price" | "quantity" | "percent" | "ratio" | "currency" | "text";
+
+export interface MarketDataField {
+  id: string;
+  name: string;
+  unit: MarketDataFieldUnit;
+  description: string;
+}
+
+export const MARKET_DATA_FIELDS = [
+  { id: "31", name: "last", unit: "price", description: "Last traded price" },
+  { id: "84", name: "bid", unit: "price", description: "Highest bid price" },
+  { id: "86", name: "ask", unit: "price", description: "Lowest ask price" },
+  { id: "88", name: "bidSize", unit: "quantity", description: "Size at the bid" },
+  { id: "85", name: "askSize", unit: "quantity", description: "Size at the ask" },
+  { id: "7059", name: "lastSize", unit: "quantity", description: "Size of the last trade" },
+  { id: "87", name: "volume", unit: "quantity", description: "Volume for the day" },
+  { id: "7282", name: "avgVolume", unit: "quantity", description: "Average daily volume over 90 days" },
+  { id: "7295", name: "open", unit: "price", description: "Today's opening price" },
+  { id: "70", name: "high", unit: "price", description: "Today's high" },
+  { id: "71", name: "low", unit: "price", description: "Today's low" },
+  { id: "7296", name: "close", unit: "price", description: "Today's closing price" },
+  { id: "7741", name: "priorClose", unit: "price", description: "Previous session's closing price" },
+  { id: "82", name: "change", unit: "price", description: "Change from the prior close" },
+  { id: "83", name: "changePercent", unit: "percent", description: "Change from the prior close in percent" },
+  { id: "7293", name: "high52w", unit: "price", description: "52 week high" },
+  { id: "7294", name: "low52w", unit: "price", description: "52 week low" },
+  { id: "7289", name: "marketCap", unit: "currency", description: "Market capitalization" },
+  { id: "7290", name: "peRatio", unit: "ratio", description: "Price to earnings ratio" },
+  { id: "7291", name: "eps", unit: "price", description: "Earnings per share" },
+  { id: "7287", name: "dividendYield", unit: "percent", description: "Dividend yield in percent" },
+  { id: "7283", name: "impliedVolatility", unit: "percent", description: "Option implied volatility of the underlying in percent" },
+  { id: "7087", name: "historicalVolatility", unit: "percent", description: "30 day historical volatility in percent" },
+  { id: "7308", name: "delta", unit: "ratio", description: "Option delta" },
+  { id: "7309", name: "gamma", unit: "ratio", description: "Option gamma" },
+  { id: "7310", name: "theta", unit: "ratio", description: "Option theta" },
+  { id: "7311", name: "vega", unit: "ratio", description: "Option vega" },
+  { id: "6509", name: "marketDataAvailability", unit: "text", description: "Market data availability code (R = real-time, D = delayed, Z = frozen)" },
+] as const satisfies readonly MarketDataField[];
+
+export type MarketDataFieldName = typeof MARKET_DATA_FIELDS[number]["name"];
+
+export const MARKET_DATA_FIELD_NAMES = MARKET_DATA_FIELDS.map((field) => field.name) as [MarketDataFieldName, ...MarketDataFieldName[]];
+
+export const DEFAULT_MARKET_DATA_FIELDS: MarketDataFieldName[] = [
+  "last", "bid", "ask", "bidSize", "askSize", "volume", "open", "high", "low", "priorClose", "change", "changePercent",
+];
+
+const FIELDS_BY_NAME = new Map<string, MarketDataField>(MARKET_DATA_FIELDS.map((field) => [field.name, field]));
+
+export function getMarketDataField(name: MarketDataFieldName): MarketDataField {
+  return FIELDS_BY_NAME.get(name)!;
+}
+
+export function toFieldIds(names: MarketDataFieldName[]): string[] {
+  return names.map((name) => getMarketDataField(name).id);
+}
+
+const SUFFIX_MULTIPLIERS: Record<string, number> = { K: 1e3, M: 1e6, B: 1e9, T: 1e12 };
+
+/**
+ * Parse a formatted snapshot value. Prices may carry a "C" (prior close) or
+ * "H" (halted) prefix, sizes and volumes may be abbreviated ("1.2M") and
+ * percentages carry a "%" sign.
+ */
+export function parseFieldValue(field: MarketDataField, raw: unknown): number | string | null {
+  if (raw === undefined || raw === null || raw === "") return null;
+  if (field.unit === "text") return String(raw);
+  if (typeof raw === "number") return raw;
+
+  const match = String(raw)
+    .replace(/,/g, "")
+    .trim()
+    .match(/^[CH]?(-?[0-9]*\.?[0-9]+)\s*([KMBT])?%?$/i);
+  if (!match) return null;
+
+  const multiplier = match[2] ? SUFFIX_MULTIPLIERS[match[2].toUpperCase()] : 1;
+  return Number(match[1]) * multiplier;
+}
+
+/**
+ * Pick the requested fields out of a raw snapshot row and return them by name.
+ * Fields the gateway did not send come back as null.
+ */
+export function parseSnapshot(
+  snapshot: any,
+  names: MarketDataFieldName[]
+): { values: Record<string, number | string | null>; units: Record<string, MarketDataFieldUnit> } {
+  const values: Record<string, number | string | null> = {};
+  const units: Record<string, MarketDataFieldUnit> = {};
+
+  for (const name of names) {
+    const field = getMarketDataField(name);
+    values[name] = parseFieldValue(field, snapshot?.[field.id]);
+    units[name] = field.unit;
+  }
+
+  return { values, units };
+}
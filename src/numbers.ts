@@ -0,0 +1,9 @@
+// numbers.ts
+// Number parsing shared by the normalizers. The gateway sends numbers as numbers,
+// numeric strings or empty strings depending on the endpoint and field.
+
+export const toNumber = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
@@ -0,0 +1,149 @@
+// option-chain.ts
+// Builds an option chain out of secdef search sections, /iserver/secdef/strikes and
+// /iserver/secdef/info rows, trimmed to the strikes and expiries a caller asked for.
+import { toNumber } from "./numbers.js";
+
+export interface OptionChainQuery {
+  // Maximum distance of a strike from the underlying price, as a fraction (0.1 = ±10%)
+  moneyness?: number;
+  minDaysToExpiry?: number;
+  maxDaysToExpiry?: number;
+  // Strikes kept per month, nearest to the underlying price first
+  maxStrikes?: number;
+  right?: "C" | "P";
+  exchange?: string;
+}
+
+export interface OptionStrike {
+  strike: number;
+  call: number | null;
+  put: number | null;
+}
+
+export interface OptionExpiration {
+  expiry: string;
+  daysToExpiry: number;
+  tradingClass: string | null;
+  multiplier: number | null;
+  strikes: OptionStrike[];
+}
+
+// One /iserver/secdef/info lookup: the contracts of a single strike and right in a month
+export interface OptionInfoRequest {
+  month: string;
+  strike: number;
+  right: string;
+}
+
+export const DEFAULT_OPTION_CHAIN_QUERY = {
+  moneyness: 0.1,
+  minDaysToExpiry: 0,
+  maxDaysToExpiry: 60,
+  maxStrikes: 10,
+  exchange: "SMART",
+};
+
+const MONTHS = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (now: Date): number => Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+
+/**
+ * Option months listed in the OPT section of a secdef search result,
+ * e.g. "JAN24;FEB24;MAR24" becomes ["JAN24", "FEB24", "MAR24"].
+ */
+export function optionMonths(searchResult: any): string[] {
+  const sections: any[] = Array.isArray(searchResult?.sections) ? searchResult.sections : [];
+  const options = sections.find((section) => String(section?.secType ?? "").toUpperCase() === "OPT");
+  return String(options?.months ?? "")
+    .split(";")
+    .map((month) => month.trim().toUpperCase())
+    .filter((month) => /^[A-Z]{3}[0-9]{2}$/.test(month) && MONTHS.includes(month.slice(0, 3)));
+}
+
+/**
+ * Keep the months that overlap the expiry window. A month is kept as long as
+ * any of its days falls in the window, since weeklies expire throughout the month.
+ */
+export function monthsInWindow(months: string[], minDays: number, maxDays: number, now: Date = new Date()): string[] {
+  const from = startOfDay(now) + minDays * DAY_MS;
+  const to = startOfDay(now) + maxDays * DAY_MS;
+
+  return months.filter((month) => {
+    const year = 2000 + Number(month.slice(3));
+    const index = MONTHS.indexOf(month.slice(0, 3));
+    const first = Date.UTC(year, index, 1);
+    const last = Date.UTC(year, index + 1, 0);
+    return last >= from && first <= to;
+  });
+}
+
+/**
+ * Strikes within the moneyness range of the price, limited to the `maxStrikes`
+ * nearest and returned in ascending order. Without a price the strikes around
+ * the middle of the list are kept instead.
+ */
+export function selectStrikes(strikes: number[], price: number | null, moneyness: number, maxStrikes: number): number[] {
+  const unique = [...new Set(strikes.filter((strike) => Number.isFinite(strike)))].sort((a, b) => a - b);
+  const center = price ?? unique[Math.floor(unique.length / 2)];
+  if (center === undefined) return [];
+
+  const inRange = price !== null
+    ? unique.filter((strike) => Math.abs(strike / price - 1) <= moneyness)
+    : unique;
+
+  return inRange
+    .sort((a, b) => Math.abs(a - center) - Math.abs(b - center))
+    .slice(0, maxStrikes)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Group /iserver/secdef/info rows into expirations with the call and put conid
+ * of each strike, dropping expiries outside the window. Expirations are sorted
+ * by date and strikes ascending.
+ */
+export function buildOptionChain(rows: any[], minDays: number, maxDays: number, now: Date = new Date()): OptionExpiration[] {
+  const today = startOfDay(now);
+  const expirations = new Map<string, OptionExpiration>();
+
+  for (const row of rows) {
+    const maturity = String(row?.maturityDate ?? "");
+    const strike = toNumber(row?.strike);
+    const conid = toNumber(row?.conid);
+    if (!/^[0-9]{8}$/.test(maturity) || strike === null || conid === null) continue;
+
+    const expiryTime = Date.UTC(Number(maturity.slice(0, 4)), Number(maturity.slice(4, 6)) - 1, Number(maturity.slice(6, 8)));
+    const daysToExpiry = Math.round((expiryTime - today) / DAY_MS);
+    if (daysToExpiry < minDays || daysToExpiry > maxDays) continue;
+
+    const expiry = new Date(expiryTime).toISOString().slice(0, 10);
+    let expiration = expirations.get(expiry);
+    if (!expiration) {
+      expiration = {
+        expiry: expiry,
+        daysToExpiry: daysToExpiry,
+        tradingClass: row?.tradingClass ?? null,
+        multiplier: toNumber(row?.multiplier),
+        strikes: [],
+      };
+      expirations.set(expiry, expiration);
+    }
+
+    let entry = expiration.strikes.find((candidate) => candidate.strike === strike);
+    if (!entry) {
+      entry = { strike: strike, call: null, put: null };
+      expiration.strikes.push(entry);
+    }
+    // Adjusted series can share an expiry and strike; the first listing wins
+    if (String(row?.right ?? "").toUpperCase().startsWith("C")) {
+      entry.call = entry.call ?? conid;
+    } else {
+      entry.put = entry.put ?? conid;
+    }
+  }
+
+  return [...expirations.values()]
+    .map((expiration) => ({ ...expiration, strikes: expiration.strikes.sort((a, b) => a.strike - b.strike) }))
+    .sort((a, b) => a.expiry.localeCompare(b.expiry));
+}
@@ -0,0 +1,66 @@
+// order-approval.ts
+// Pending order tickets for the two-step approval flow: orders and amendments are
+// parked here until approve_order releases them or reject_order discards them.
+import { randomUUID } from "crypto";
+
+export type OrderTicketKind = "order" | "bracket" | "modify";
+
+export interface OrderTicket<T = any> {
+  id: string;
+  kind: OrderTicketKind;
+  order: T;
+  preview: any;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export class OrderTicketError extends Error {
+  constructor(message: string, readonly reason: "not_found" | "expired") {
+    super(message);
+    this.name = "OrderTicketError";
+  }
+}
+
+export class OrderTicketStore {
+  private tickets = new Map<string, OrderTicket>();
+
+  constructor(private ttlMs: number) {}
+
+  create<T>(kind: OrderTicketKind, order: T, preview: any, now: number = Date.now()): OrderTicket<T> {
+    this.prune(now);
+    const ticket: OrderTicket<T> = {
+      id: randomUUID(),
+      kind,
+      order,
+      preview,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttlMs).toISOString(),
+    };
+    this.tickets.set(ticket.id, ticket);
+    return ticket;
+  }
+
+  /**
+   * Remove a ticket and return it. Each ticket can only be taken once, whether
+   * it ends up approved or rejected.
+   */
+  take(id: string, now: number = Date.now()): OrderTicket {
+    const ticket = this.tickets.get(id);
+    if (!ticket) {
+      throw new OrderTicketError(`Order ticket ${id} not found; it may already have been approved or rejected`, "not_found");
+    }
+    this.tickets.delete(id);
+    if (Date.parse(ticket.expiresAt) <= now) {
+      throw new OrderTicketError(`Order ticket ${id} expired at ${ticket.expiresAt}; place the order again`, "expired");
+    }
+    return ticket;
+  }
+
+  private prune(now: number): void {
+    for (const [id, ticket] of this.tickets) {
+      if (Date.parse(ticket.expiresAt) <= now) {
+        this.tickets.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,76 @@
+// order-preview.ts
+// Normalizes /iserver/account/{id}/orders/whatif responses. The gateway reports
+// every amount as a formatted string ("1,234.56 USD"), which is turned into numbers here.
+
+export interface AmountChange {
+  current: number | null;
+  change: number | null;
+  after: number | null;
+}
+
+export interface OrderPreview {
+  commission: { min: number | null; max: number | null; currency?: string };
+  amount: { value: number | null; currency?: string };
+  total: { value: number | null; currency?: string };
+  equityWithLoan: AmountChange;
+  initialMargin: AmountChange;
+  maintenanceMargin: AmountChange;
+  position: AmountChange;
+  warnings: string[];
+  error?: string;
+}
+
+const NUMBER_PATTERN = /-?[0-9][0-9,]*(\.[0-9]+)?/g;
+
+const parseNumbers = (raw: unknown): number[] => {
+  if (typeof raw === "number") return [raw];
+  if (typeof raw !== "string") return [];
+  return (raw.match(NUMBER_PATTERN) || []).map((value) => Number(value.replace(/,/g, "")));
+};
+
+const parseCurrency = (raw: unknown): string | undefined => {
+  if (typeof raw !== "string") return undefined;
+  return raw.match(/\b[A-Z]{3}\b/)?.[0];
+};
+
+const parseAmount = (raw: unknown): { value: number | null; currency?: string } => ({
+  value: parseNumbers(raw)[0] ?? null,
+  currency: parseCurrency(raw),
+});
+
+const parseChange = (raw: any): AmountChange => ({
+  current: parseNumbers(raw?.current)[0] ?? null,
+  change: parseNumbers(raw?.change)[0] ?? null,
+  after: parseNumbers(raw?.after)[0] ?? null,
+});
+
+/**
+ * Commission is sometimes a single value and sometimes a range ("0.35 - 1.00 USD");
+ * either way it is reported as min/max.
+ */
+const parseCommission = (raw: unknown): OrderPreview["commission"] => {
+  const values = parseNumbers(raw);
+  return {
+    min: values.length > 0 ? Math.min(...values) : null,
+    max: values.length > 0 ? Math.max(...values) : null,
+    currency: parseCurrency(raw),
+  };
+};
+
+export function normalizeWhatIf(data: any): OrderPreview {
+  const warnings = typeof data?.warn === "string"
+    ? data.warn.split("\n").map((line: string) => line.trim()).filter((line: string) => line.length > 0)
+    : [];
+
+  return {
+    commission: parseCommission(data?.amount?.commission),
+    amount: parseAmount(data?.amount?.amount),
+    total: parseAmount(data?.amount?.total),
+    equityWithLoan: parseChange(data?.equity),
+    initialMargin: parseChange(data?.initial),
+    maintenanceMargin: parseChange(data?.maintenance),
+    position: parseChange(data?.position),
+    warnings: warnings,
+    error: data?.error || undefined,
+  };
+}
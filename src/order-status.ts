@@ -0,0 +1,66 @@
+// order-status.ts
+// Reads fill progress out of /iserver/account/orders/{orderId} responses and
+// tells when an order has stopped working.
+import { toNumber } from "./numbers.js";
+
+export interface OrderFill {
+  orderId: string;
+  status: string | null;
+  terminal: boolean;
+  filledQuantity: number | null;
+  totalQuantity: number | null;
+  remainingQuantity: number | null;
+  avgPrice: number | null;
+}
+
+// Order status reports descriptive order types; the order endpoints expect the short codes
+const ORDER_STATUS_TYPES: Record<string, string> = {
+  MARKET: "MKT",
+  LIMIT: "LMT",
+  STOP: "STP",
+  "STOP LIMIT": "STOP_LIMIT",
+  TRAILING_STOP: "TRAIL",
+  TRAIL: "TRAIL",
+  TRAILLMT: "TRAILLMT",
+  "MARKET ON CLOSE": "MOC",
+  "LIMIT ON CLOSE": "LOC",
+};
+
+// An order in one of these states will not fill any further
+const TERMINAL_ORDER_STATUSES = ["filled", "cancelled", "apicancelled", "inactive", "rejected"];
+
+export function isTerminalOrderStatus(status: unknown): boolean {
+  return TERMINAL_ORDER_STATUSES.includes(String(status ?? "").toLowerCase());
+}
+
+/**
+ * The order type of an order status in the short form the order endpoints take
+ */
+export function statusOrderType(data: any): string {
+  const orderType = String(data?.order_type ?? data?.orderType ?? "").toUpperCase();
+  return ORDER_STATUS_TYPES[orderType] || orderType;
+}
+
+/**
+ * The side of an order status; the gateway reports it as "B"/"S" or spelled out
+ */
+export function statusOrderSide(data: any): "BUY" | "SELL" {
+  const side = String(data?.side ?? "").toUpperCase();
+  return side === "S" || side === "SELL" ? "SELL" : "BUY";
+}
+
+export function summarizeOrderStatus(orderId: string, data: any): OrderFill {
+  const status = data?.order_status ?? data?.status ?? null;
+  const filled = toNumber(data?.cum_fill ?? data?.filledQuantity);
+  const total = toNumber(data?.total_size ?? data?.size ?? data?.totalSize);
+
+  return {
+    orderId: orderId,
+    status: status,
+    terminal: isTerminalOrderStatus(status),
+    filledQuantity: filled,
+    totalQuantity: total,
+    remainingQuantity: filled !== null && total !== null ? Math.max(total - filled, 0) : null,
+    avgPrice: toNumber(data?.average_price ?? data?.avgPrice),
+  };
+}
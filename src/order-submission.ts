@@ -0,0 +1,127 @@
+// order-submission.ts
+// Walks the reply chain of an order submission. IB may answer an order with several
+// precautionary messages in a row; each one is confirmed, declined or handed back
+// to the caller according to a policy, and every message is recorded.
+
+export interface ReplyPolicy {
+  // Message ids (e.g. "o163", "o354") that are confirmed without asking
+  autoConfirm: string[];
+  // What happens to a message that is not in the allowlist
+  onUnlisted: "ask" | "reject";
+}
+
+export interface ReplyMessage {
+  replyId: string;
+  messageIds: string[];
+  text: string[];
+  action: "confirmed" | "declined" | "pending";
+}
+
+export interface PlacedOrder {
+  orderId: string;
+  status: string | null;
+}
+
+export type SubmissionOutcome =
+  | { status: "placed"; orders: PlacedOrder[]; messages: ReplyMessage[]; reply: any }
+  | { status: "needs_confirmation"; replyId: string; messageIds: string[]; message: string[]; messages: ReplyMessage[] }
+  | { status: "rejected"; reason: string; messages: ReplyMessage[] };
+
+export type ReplyAnswer = (replyId: string, messageIds: string[], confirmed: boolean) => Promise<any>;
+
+// The ids IB attaches to the warnings most orders trip over: o163 (limit price
+// far from the market) and o354 (no market data subscription)
+export const DEFAULT_AUTO_CONFIRM_MESSAGE_IDS = ["o163", "o354"];
+
+export const DEFAULT_MAX_REPLY_CHAIN_LENGTH = 10;
+
+export function parseMessageIds(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [];
+  return list.map((id) => String(id).trim().toLowerCase()).filter((id) => id.length > 0);
+}
+
+const rowsOf = (reply: any): any[] => (Array.isArray(reply) ? reply : reply ? [reply] : []);
+
+const errorOf = (reply: any): string | undefined => {
+  const failed = rowsOf(reply).find((row) => row?.error);
+  return failed ? String(failed.error) : undefined;
+};
+
+const promptOf = (reply: any): ReplyMessage | undefined => {
+  const prompt = rowsOf(reply).find((row) => row?.id && row?.message);
+  if (!prompt) return undefined;
+
+  return {
+    replyId: String(prompt.id),
+    messageIds: Array.isArray(prompt.messageIds) ? prompt.messageIds.map(String) : [],
+    text: Array.isArray(prompt.message) ? prompt.message.map(String) : [String(prompt.message)],
+    action: "pending",
+  };
+};
+
+const placedOrdersOf = (reply: any): PlacedOrder[] =>
+  rowsOf(reply)
+    .filter((row) => row?.order_id !== undefined && row?.order_id !== null)
+    .map((row) => ({ orderId: String(row.order_id), status: row.order_status ?? null }));
+
+// A prompt without message ids can not be matched against the allowlist
+const isAllowed = (message: ReplyMessage, policy: ReplyPolicy): boolean => {
+  const allowed = policy.autoConfirm.map((id) => id.toLowerCase());
+  return message.messageIds.length > 0 && message.messageIds.every((id) => allowed.includes(id.toLowerCase()));
+};
+
+/**
+ * Follow the gateway's replies to an order submission until the order is placed,
+ * rejected, or a message needs a decision the policy does not make. Declined
+ * messages are answered with `confirmed: false`, so nothing stays pending at the gateway.
+ */
+export async function walkReplyChain(
+  initial: any,
+  answer: ReplyAnswer,
+  policy: ReplyPolicy,
+  maxLength: number = DEFAULT_MAX_REPLY_CHAIN_LENGTH
+): Promise<SubmissionOutcome> {
+  const messages: ReplyMessage[] = [];
+  let reply = initial;
+
+  while (true) {
+    const error = errorOf(reply);
+    if (error) {
+      return { status: "rejected", reason: error, messages: messages };
+    }
+
+    const prompt = promptOf(reply);
+    if (!prompt) {
+      return { status: "placed", orders: placedOrdersOf(reply), messages: messages, reply: reply };
+    }
+    messages.push(prompt);
+
+    const allowed = isAllowed(prompt, policy);
+    if (allowed && messages.length <= maxLength) {
+      prompt.action = "confirmed";
+      reply = await answer(prompt.replyId, prompt.messageIds, true);
+      continue;
+    }
+
+    // Under the reject policy nothing is left pending, including a chain that runs too long
+    if (policy.onUnlisted === "reject") {
+      prompt.action = "declined";
+      await answer(prompt.replyId, prompt.messageIds, false);
+      return {
+        status: "rejected",
+        reason: allowed
+          ? `The reply chain exceeded ${maxLength} confirmations`
+          : `Message ${prompt.messageIds.join(", ") || prompt.replyId} is not in the auto-confirm list: ${prompt.text.join(" ")}`,
+        messages: messages,
+      };
+    }
+
+    return {
+      status: "needs_confirmation",
+      replyId: prompt.replyId,
+      messageIds: prompt.messageIds,
+      message: prompt.text,
+      messages: messages,
+    };
+  }
+}
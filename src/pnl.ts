@@ -0,0 +1,52 @@
+// pnl.ts
+// Normalizes /iserver/account/pnl/partitioned responses and position level PnL.
+import { toNumber } from "./numbers.js";
+
+export interface AccountPnL {
+  accountId: string;
+  dailyPnl: number | null;
+  unrealizedPnl: number | null;
+  netLiquidation: number | null;
+  marketValue: number | null;
+  excessLiquidity: number | null;
+}
+
+export interface PositionPnL {
+  conid: number | null;
+  symbol: string;
+  position: number | null;
+  marketValue: number | null;
+  unrealizedPnl: number | null;
+  realizedPnl: number | null;
+}
+
+/**
+ * The gateway keys the partitioned PnL by "<accountId>.Core" under `upnl`, with
+ * abbreviated fields: dpl (daily), upl (unrealized), nl (net liquidation),
+ * mv (market value) and el (excess liquidity).
+ */
+export function normalizePartitionedPnl(data: any): AccountPnL[] {
+  const partitions = data?.upnl && typeof data.upnl === "object" ? Object.entries<any>(data.upnl) : [];
+
+  return partitions
+    .map(([key, row]) => ({
+      accountId: key.split(".")[0],
+      dailyPnl: toNumber(row?.dpl),
+      unrealizedPnl: toNumber(row?.upl),
+      netLiquidation: toNumber(row?.nl),
+      marketValue: toNumber(row?.mv),
+      excessLiquidity: toNumber(row?.el),
+    }))
+    .sort((a, b) => a.accountId.localeCompare(b.accountId));
+}
+
+export function toPositionPnl(rows: any[]): PositionPnL[] {
+  return rows.map((row) => ({
+    conid: toNumber(row?.conid),
+    symbol: String(row?.ticker ?? row?.contractDesc ?? ""),
+    position: toNumber(row?.position),
+    marketValue: toNumber(row?.mktValue),
+    unrealizedPnl: toNumber(row?.unrealizedPnl),
+    realizedPnl: toNumber(row?.realizedPnl),
+  }));
+}
@@ -0,0 +1,48 @@
+// positions.ts
+// Filtering and sorting for /portfolio/{accountId}/positions rows.
+import { toNumber } from "./numbers.js";
+
+export type PositionSortField = "marketValue" | "unrealizedPnl" | "symbol" | "position";
+
+export interface PositionQuery {
+  secType?: string;
+  symbol?: string;
+  // Compared against the absolute market value, so short positions count by size
+  minMarketValue?: number;
+  sortBy?: PositionSortField;
+  sortOrder?: "asc" | "desc";
+}
+
+const symbolOf = (row: any): string => String(row?.ticker ?? row?.contractDesc ?? "").toUpperCase();
+
+const SORT_VALUES: Record<PositionSortField, (row: any) => number | string> = {
+  marketValue: (row) => toNumber(row?.mktValue) ?? 0,
+  unrealizedPnl: (row) => toNumber(row?.unrealizedPnl) ?? 0,
+  symbol: symbolOf,
+  position: (row) => toNumber(row?.position) ?? 0,
+};
+
+export function queryPositions(rows: any[], query: PositionQuery = {}): any[] {
+  const secType = query.secType?.toUpperCase();
+  const symbol = query.symbol?.toUpperCase();
+
+  const filtered = rows.filter((row) => {
+    if (secType && String(row?.assetClass ?? row?.secType ?? "").toUpperCase() !== secType) return false;
+    if (symbol && symbolOf(row) !== symbol) return false;
+    if (query.minMarketValue !== undefined && Math.abs(toNumber(row?.mktValue) ?? 0) < query.minMarketValue) return false;
+    return true;
+  });
+
+  if (!query.sortBy) {
+    return filtered;
+  }
+
+  const valueOf = SORT_VALUES[query.sortBy];
+  const direction = (query.sortOrder ?? (query.sortBy === "symbol" ? "asc" : "desc")) === "asc" ? 1 : -1;
+  return [...filtered].sort((a, b) => {
+    const left = valueOf(a);
+    const right = valueOf(b);
+    const compared = typeof left === "string" ? left.localeCompare(String(right)) : left - (right as number);
+    return compared * direction;
+  });
+}
@@ -0,0 +1,215 @@
+// risk-policy.ts
+// Pre-trade risk limits checked by the tool handlers before an order reaches IBClient.
+import { isTerminalOrderStatus, statusOrderSide } from "./order-status.js";
+
+export interface RiskPolicy {
+  maxOrderNotional?: number;
+  maxOrderQuantity?: number;
+  maxDailyOrders?: number;
+  maxPositionSize?: number;
+  symbolAllowlist?: string[];
+  symbolDenylist?: string[];
+  allowMarketOrders: boolean;
+}
+
+export interface RiskOrder {
+  symbol: string;
+  action: "BUY" | "SELL";
+  orderType: string;
+  quantity: number;
+  // Order types of attached exit orders, e.g. a bracket's take-profit and stop-loss legs
+  exitOrderTypes?: string[];
+}
+
+export interface RiskCheckContext {
+  // Price used for the notional check; null when it could not be determined
+  price?: number | null;
+  // Signed position in the contract before the order fills, working orders included
+  currentPosition?: number;
+  ordersToday: number;
+}
+
+export interface RiskViolation {
+  rule: string;
+  message: string;
+  limit?: number | string | string[];
+  actual?: number | string | null;
+}
+
+// Order types that execute at whatever the market price is, stops and trailing
+// stops once they are triggered
+const MARKET_ORDER_TYPES = ["MKT", "MOC", "STP", "TRAIL"];
+
+const parseLimit = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const parseSymbolList = (value: unknown): string[] | undefined => {
+  const list = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [];
+  const symbols = list.map((symbol) => String(symbol).trim().toUpperCase()).filter((symbol) => symbol.length > 0);
+  return symbols.length > 0 ? symbols : undefined;
+};
+
+/**
+ * Build the policy from the merged server config. Unset limits are not enforced.
+ */
+export function loadRiskPolicy(config: any): RiskPolicy {
+  return {
+    maxOrderNotional: parseLimit(config?.IB_RISK_MAX_ORDER_NOTIONAL),
+    maxOrderQuantity: parseLimit(config?.IB_RISK_MAX_ORDER_QUANTITY),
+    maxDailyOrders: parseLimit(config?.IB_RISK_MAX_DAILY_ORDERS),
+    maxPositionSize: parseLimit(config?.IB_RISK_MAX_POSITION_SIZE),
+    symbolAllowlist: parseSymbolList(config?.IB_RISK_SYMBOL_ALLOWLIST),
+    symbolDenylist: parseSymbolList(config?.IB_RISK_SYMBOL_DENYLIST),
+    allowMarketOrders: config?.IB_RISK_ALLOW_MARKET_ORDERS !== false && config?.IB_RISK_ALLOW_MARKET_ORDERS !== "false",
+  };
+}
+
+export function checkOrderRisk(order: RiskOrder, policy: RiskPolicy, context: RiskCheckContext): RiskViolation[] {
+  const violations: RiskViolation[] = [];
+  const symbol = order.symbol.toUpperCase();
+
+  if (policy.symbolAllowlist && !policy.symbolAllowlist.includes(symbol)) {
+    violations.push({
+      rule: "symbolAllowlist",
+      message: `${symbol} is not in the list of tradable symbols`,
+      limit: policy.symbolAllowlist,
+      actual: symbol,
+    });
+  }
+
+  if (policy.symbolDenylist?.includes(symbol)) {
+    violations.push({
+      rule: "symbolDenylist",
+      message: `${symbol} is on the list of blocked symbols`,
+      limit: policy.symbolDenylist,
+      actual: symbol,
+    });
+  }
+
+  const marketOrderType = [order.orderType, ...(order.exitOrderTypes ?? [])].find((type) => MARKET_ORDER_TYPES.includes(type));
+  if (!policy.allowMarketOrders && marketOrderType) {
+    violations.push({
+      rule: "allowMarketOrders",
+      message: `${marketOrderType} orders execute at the market price and are not allowed; use a limit or stop limit order instead`,
+      actual: marketOrderType,
+    });
+  }
+
+  if (policy.maxOrderQuantity !== undefined && order.quantity > policy.maxOrderQuantity) {
+    violations.push({
+      rule: "maxOrderQuantity",
+      message: `Order quantity ${order.quantity} exceeds the maximum of ${policy.maxOrderQuantity}`,
+      limit: policy.maxOrderQuantity,
+      actual: order.quantity,
+    });
+  }
+
+  if (policy.maxOrderNotional !== undefined) {
+    if (context.price === undefined || context.price === null) {
+      violations.push({
+        rule: "maxOrderNotional",
+        message: "Could not determine a price to check the order's notional value",
+        limit: policy.maxOrderNotional,
+        actual: null,
+      });
+    } else if (order.quantity * context.price > policy.maxOrderNotional) {
+      violations.push({
+        rule: "maxOrderNotional",
+        message: `Order notional ${(order.quantity * context.price).toFixed(2)} exceeds the maximum of ${policy.maxOrderNotional}`,
+        limit: policy.maxOrderNotional,
+        actual: order.quantity * context.price,
+      });
+    }
+  }
+
+  if (policy.maxDailyOrders !== undefined && context.ordersToday >= policy.maxDailyOrders) {
+    violations.push({
+      rule: "maxDailyOrders",
+      message: `Daily order limit of ${policy.maxDailyOrders} reached`,
+      limit: policy.maxDailyOrders,
+      actual: context.ordersToday,
+    });
+  }
+
+  if (policy.maxPositionSize !== undefined) {
+    const current = context.currentPosition ?? 0;
+    const after = current + (order.action === "BUY" ? order.quantity : -order.quantity);
+    if (Math.abs(after) > policy.maxPositionSize) {
+      violations.push({
+        rule: "maxPositionSize",
+        message: `Position after fill (${after}) would exceed the maximum size of ${policy.maxPositionSize}`,
+        limit: policy.maxPositionSize,
+        actual: after,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Counts orders submitted through this server per UTC day
+ */
+export class DailyOrderCounter {
+  private day = "";
+  private count = 0;
+
+  private rollover(now: Date): void {
+    const day = now.toISOString().slice(0, 10);
+    if (day !== this.day) {
+      this.day = day;
+      this.count = 0;
+    }
+  }
+
+  get(now: Date = new Date()): number {
+    this.rollover(now);
+    return this.count;
+  }
+
+  record(now: Date = new Date()): void {
+    this.rollover(now);
+    this.count++;
+  }
+}
+
+/**
+ * Net signed position for a contract out of a /portfolio/{id}/positions response,
+ * matched by conid when known and by ticker otherwise
+ */
+export function currentPositionFor(positions: any, symbol: string, conid?: number): number {
+  const rows: any[] = Array.isArray(positions) ? positions : [];
+  return rows
+    .filter((row) => conid !== undefined
+      ? Number(row.conid) === conid
+      : String(row.ticker ?? row.contractDesc ?? "").toUpperCase() === symbol.toUpperCase())
+    .reduce((total, row) => total + (Number(row.position) || 0), 0);
+}
+
+/**
+ * Signed remaining size of an account's working orders in a contract, out of a
+ * /iserver/account/orders response. The order being amended can be left out so
+ * its old size is not counted next to the new one.
+ */
+export function workingOrderExposure(
+  liveOrders: any,
+  accountId: string,
+  symbol: string,
+  conid?: number,
+  excludeOrderId?: string
+): number {
+  const rows: any[] = Array.isArray(liveOrders?.orders) ? liveOrders.orders : Array.isArray(liveOrders) ? liveOrders : [];
+  return rows
+    .filter((row) =>
+      row.acct === accountId &&
+      !isTerminalOrderStatus(row.status) &&
+      String(row.orderId) !== excludeOrderId &&
+      (conid !== undefined ? Number(row.conid) === conid : String(row.ticker ?? "").toUpperCase() === symbol.toUpperCase()))
+    .reduce((total, row) => {
+      const remaining = Number(row.remainingQuantity ?? (Number(row.totalSize) - Number(row.filledQuantity ?? 0))) || 0;
+      return total + (statusOrderSide(row) === "BUY" ? remaining : -remaining);
+    }, 0);
+}
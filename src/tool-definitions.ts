@@ -1,5 +1,6 @@
 // tool-definitions.ts
 import { z } from "zod";
+import { MARKET_DATA_FIELD_NAMES } from "./market-data-fields.js";
 
 // ── Zod Schemas ──────────────────────────────────────────────────────────────
 // Helper for tolerant number (allows "1", "1.5", or actual number for fractional shares)
@@ -8,41 +9,192 @@ const IntegerOrStringIntegerZod = z.union([
   z.string().regex(/^[0-9]+(\.[0-9]+)?$/).transform(val => parseFloat(val))
 ]);
 
+// Helper for contract ids (allows 265598 or "265598")
+const ConidZod = z.union([
+  z.number().int().positive(),
+  z.string().regex(/^[0-9]+$/).transform(val => parseInt(val, 10))
+]);
+
+// Helper for fill waits, capped below the MCP SDK's default request timeout of 60s
+const FillTimeoutSecondsZod = z.number().positive().max(50);
+
 // Zod Raw Shapes (for server.tool() method)
 export const AuthenticateZodShape = {
   confirm: z.literal(true)
 };
 
 export const GetAccountInfoZodShape = {
-  confirm: z.literal(true)
+  confirm: z.literal(true),
+  verbosity: z.enum(["compact", "raw"]).optional()
 };
 
 export const GetPositionsZodShape = {
+  accountId: z.string().optional(),
+  secType: z.string().optional(),
+  symbol: z.string().optional(),
+  minMarketValue: z.number().nonnegative().optional(),
+  sortBy: z.enum(["marketValue", "unrealizedPnl", "symbol", "position"]).optional(),
+  sortOrder: z.enum(["asc", "desc"]).optional(),
+  refresh: z.boolean().optional()
+};
+
+export const GetAccountLedgerZodShape = {
+  accountId: z.string().optional()
+};
+
+export const GetPnLZodShape = {
+  accountId: z.string().optional(),
+  includePositions: z.boolean().optional()
+};
+
+export const ListAccountsZodShape = {};
+
+export const SwitchAccountZodShape = {
   accountId: z.string()
 };
 
+export const SearchContractsZodShape = {
+  symbol: z.string(),
+  secType: z.string().optional()
+};
+
 export const GetMarketDataZodShape = {
   symbol: z.string(),
-  exchange: z.string().optional()
+  conid: ConidZod.optional(),
+  secType: z.string().optional(),
+  exchange: z.string().optional(),
+  currency: z.string().optional(),
+  fields: z.array(z.enum(MARKET_DATA_FIELD_NAMES)).min(1).optional()
+};
+
+export const GetQuotesZodShape = {
+  symbols: z.array(z.union([
+    z.string(),
+    z.object({
+      symbol: z.string(),
+      conid: ConidZod.optional(),
+      secType: z.string().optional(),
+      exchange: z.string().optional(),
+      currency: z.string().optional()
+    })
+  ])).min(1).max(100),
+  fields: z.array(z.enum(MARKET_DATA_FIELD_NAMES)).min(1).optional()
+};
+
+export const GetHistoricalDataZodShape = {
+  symbol: z.string(),
+  conid: ConidZod.optional(),
+  secType: z.string().optional(),
+  exchange: z.string().optional(),
+  currency: z.string().optional(),
+  period: z.string().regex(/^[0-9]+(min|h|d|w|m|y)$/, "period must look like 30min, 1d, 2w, 6m or 1y"),
+  bar: z.string().regex(/^[0-9]+(min|h|d|w|m)$/, "bar must look like 1min, 5min, 1h, 1d, 1w or 1m"),
+  outsideRth: z.boolean().optional(),
+  startTime: z.string().regex(/^[0-9]{8}-[0-9]{2}:[0-9]{2}:[0-9]{2}$/, "startTime must be formatted as YYYYMMDD-HH:mm:ss").optional()
+};
+
+export const GetOptionChainZodShape = {
+  symbol: z.string(),
+  // Underlying conid, when the symbol matches several underlyings
+  conid: ConidZod.optional(),
+  exchange: z.string().optional(),
+  right: z.enum(["C", "P"]).optional(),
+  // Strikes within this fraction of the underlying price (0.1 = ±10%)
+  moneyness: z.number().positive().max(1).optional(),
+  minDaysToExpiry: z.number().int().min(0).optional(),
+  maxDaysToExpiry: z.number().int().positive().max(730).optional(),
+  maxStrikes: z.number().int().min(1).max(50).optional()
 };
 
 export const PlaceOrderZodShape = {
-  accountId: z.string(),
+  accountId: z.string().optional(),
   symbol: z.string(),
+  conid: ConidZod.optional(),
+  secType: z.string().optional(),
+  exchange: z.string().optional(),
+  currency: z.string().optional(),
   action: z.enum(["BUY", "SELL"]),
-  orderType: z.enum(["MKT", "LMT", "STP"]),
+  orderType: z.enum(["MKT", "LMT", "STP", "STOP_LIMIT", "TRAIL", "TRAILLMT", "MOC", "LOC"]),
   quantity: IntegerOrStringIntegerZod,
   price: z.number().optional(),
   stopPrice: z.number().optional(),
+  trailingAmt: z.number().positive().optional(),
+  trailingType: z.enum(["amt", "%"]).optional(),
+  tif: z.enum(["DAY", "GTC", "IOC", "OPG", "GTD"]).optional(),
+  expiry: z.string().regex(/^[0-9]{8}-[0-9]{2}:[0-9]{2}:[0-9]{2}$/, "expiry must be formatted as YYYYMMDD-HH:mm:ss").optional(),
+  outsideRth: z.boolean().optional(),
+  suppressConfirmations: z.boolean().optional(),
+  // Hold the reply until the order is filled, cancelled, inactive or rejected
+  waitForFill: z.boolean().optional(),
+  fillTimeoutSeconds: FillTimeoutSecondsZod.optional()
+};
+
+// Previews take the same input as place_order; there is no fill to wait for
+export const PreviewOrderZodShape = z.object(PlaceOrderZodShape).omit({ waitForFill: true, fillTimeoutSeconds: true }).shape;
+
+export const PlaceBracketOrderZodShape = {
+  accountId: z.string().optional(),
+  symbol: z.string(),
+  conid: ConidZod.optional(),
+  secType: z.string().optional(),
+  exchange: z.string().optional(),
+  currency: z.string().optional(),
+  action: z.enum(["BUY", "SELL"]),
+  orderType: z.enum(["MKT", "LMT"]),
+  quantity: IntegerOrStringIntegerZod,
+  price: z.number().optional(),
+  takeProfitPrice: z.number().positive(),
+  stopLossPrice: z.number().positive(),
   suppressConfirmations: z.boolean().optional()
 };
 
+export const CancelOrderZodShape = {
+  accountId: z.string().optional(),
+  orderId: z.string(),
+  suppressConfirmations: z.boolean().optional()
+};
+
+export const CancelAllOrdersZodShape = {
+  accountId: z.string().optional(),
+  symbol: z.string().optional(),
+  suppressConfirmations: z.boolean().optional()
+};
+
+export const ModifyOrderZodShape = {
+  accountId: z.string().optional(),
+  orderId: z.string(),
+  price: z.number().positive().optional(),
+  auxPrice: z.number().positive().optional(),
+  quantity: IntegerOrStringIntegerZod.optional(),
+  tif: z.enum(["DAY", "GTC", "IOC", "OPG"]).optional(),
+  suppressConfirmations: z.boolean().optional()
+};
+
+export const ApproveOrderZodShape = {
+  ticketId: z.string()
+};
+
+export const RejectOrderZodShape = {
+  ticketId: z.string()
+};
+
 export const GetOrderStatusZodShape = {
   orderId: z.string()
 };
 
+export const WaitForOrderZodShape = {
+  orderId: z.string(),
+  timeoutSeconds: FillTimeoutSecondsZod.optional()
+};
+
 export const GetLiveOrdersZodShape = {};
 
+export const GetTradesZodShape = {
+  // Lookback in days (default 1); the gateway keeps executions for at most 7
+  days: z.number().int().min(1).max(7).optional(),
+  accountId: z.string().optional()
+};
+
 export const ConfirmOrderZodShape = {
   replyId: z.string(),
   messageIds: z.array(z.string())
@@ -55,36 +207,141 @@ export const GetAccountInfoZodSchema = z.object(GetAccountInfoZodShape);
 
 export const GetPositionsZodSchema = z.object(GetPositionsZodShape);
 
+export const GetAccountLedgerZodSchema = z.object(GetAccountLedgerZodShape);
+
+export const GetPnLZodSchema = z.object(GetPnLZodShape);
+
+export const ListAccountsZodSchema = z.object(ListAccountsZodShape);
+
+export const SwitchAccountZodSchema = z.object(SwitchAccountZodShape);
+
+export const SearchContractsZodSchema = z.object(SearchContractsZodShape);
+
 export const GetMarketDataZodSchema = z.object(GetMarketDataZodShape);
 
-export const PlaceOrderZodSchema = z.object(PlaceOrderZodShape).refine(
+export const GetQuotesZodSchema = z.object(GetQuotesZodShape);
+
+export const GetHistoricalDataZodSchema = z.object(GetHistoricalDataZodShape);
+
+export const GetOptionChainZodSchema = z.object(GetOptionChainZodShape);
+
+// Price fields each order type needs before it can be sent to the gateway
+const REQUIRED_ORDER_FIELDS: Record<string, Array<"price" | "stopPrice" | "trailingAmt" | "trailingType">> = {
+  MKT: [],
+  LMT: ["price"],
+  STP: ["stopPrice"],
+  STOP_LIMIT: ["price", "stopPrice"],
+  TRAIL: ["trailingAmt", "trailingType"],
+  TRAILLMT: ["price", "trailingAmt", "trailingType"],
+  MOC: [],
+  LOC: ["price"],
+};
+
+// Per-type price fields and tif rules shared by place_order and preview_order
+const checkOrderRules = (data: z.infer<z.ZodObject<typeof PreviewOrderZodShape>>, ctx: z.RefinementCtx) => {
+  for (const field of REQUIRED_ORDER_FIELDS[data.orderType]) {
+    if (data[field] === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${data.orderType} orders require ${field}`,
+        path: [field]
+      });
+    }
+  }
+
+  if ((data.tif === "GTD") !== (data.expiry !== undefined)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "GTD orders require expiry, and expiry is only allowed with GTD",
+      path: ["tif", "expiry"]
+    });
+  }
+
+  if (data.tif === "OPG" && data.orderType !== "MKT" && data.orderType !== "LMT") {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "OPG (at the open) is only available for MKT and LMT orders",
+      path: ["tif"]
+    });
+  }
+};
+
+export const PlaceOrderZodSchema = z.object(PlaceOrderZodShape).superRefine(checkOrderRules);
+
+export const PreviewOrderZodSchema = z.object(PreviewOrderZodShape).superRefine(checkOrderRules);
+
+export const PlaceBracketOrderZodSchema = z.object(PlaceBracketOrderZodShape).refine(
   (data) => {
     if (data.orderType === "LMT" && data.price === undefined) {
       return false;
     }
-    if (data.orderType === "STP" && data.stopPrice === undefined) {
+    // Profit target must sit on the winning side of the stop (and of the entry, when known)
+    const [low, high] = data.action === "BUY"
+      ? [data.stopLossPrice, data.takeProfitPrice]
+      : [data.takeProfitPrice, data.stopLossPrice];
+    if (low >= high) {
+      return false;
+    }
+    if (data.price !== undefined && (data.price <= low || data.price >= high)) {
       return false;
     }
     return true;
   },
   {
-    message: "LMT orders require price, STP orders require stopPrice",
-    path: ["price", "stopPrice"]
+    message: "LMT entries require price; BUY brackets need stopLossPrice < price < takeProfitPrice, SELL brackets the reverse",
+    path: ["price", "takeProfitPrice", "stopLossPrice"]
   }
 );
 
+export const CancelOrderZodSchema = z.object(CancelOrderZodShape);
+
+export const CancelAllOrdersZodSchema = z.object(CancelAllOrdersZodShape);
+
+export const ModifyOrderZodSchema = z.object(ModifyOrderZodShape).refine(
+  (data) => data.price !== undefined || data.auxPrice !== undefined || data.quantity !== undefined || data.tif !== undefined,
+  {
+    message: "At least one of price, auxPrice, quantity or tif is required",
+    path: ["price", "auxPrice", "quantity", "tif"]
+  }
+);
+
+export const ApproveOrderZodSchema = z.object(ApproveOrderZodShape);
+
+export const RejectOrderZodSchema = z.object(RejectOrderZodShape);
+
 export const GetOrderStatusZodSchema = z.object(GetOrderStatusZodShape);
 
+export const WaitForOrderZodSchema = z.object(WaitForOrderZodShape);
+
 export const GetLiveOrdersZodSchema = z.object(GetLiveOrdersZodShape);
 
+export const GetTradesZodSchema = z.object(GetTradesZodShape);
+
 export const ConfirmOrderZodSchema = z.object(ConfirmOrderZodShape);
 
 // ── TypeScript types (inferred from Zod schemas) ────────────────────────────
 export type AuthenticateInput = z.infer<typeof AuthenticateZodSchema>;
 export type GetAccountInfoInput = z.infer<typeof GetAccountInfoZodSchema>;
 export type GetPositionsInput = z.infer<typeof GetPositionsZodSchema>;
+export type GetAccountLedgerInput = z.infer<typeof GetAccountLedgerZodSchema>;
+export type GetPnLInput = z.infer<typeof GetPnLZodSchema>;
+export type ListAccountsInput = z.infer<typeof ListAccountsZodSchema>;
+export type SwitchAccountInput = z.infer<typeof SwitchAccountZodSchema>;
+export type SearchContractsInput = z.infer<typeof SearchContractsZodSchema>;
 export type GetMarketDataInput = z.infer<typeof GetMarketDataZodSchema>;
+export type GetQuotesInput = z.infer<typeof GetQuotesZodSchema>;
+export type GetHistoricalDataInput = z.infer<typeof GetHistoricalDataZodSchema>;
+export type GetOptionChainInput = z.infer<typeof GetOptionChainZodSchema>;
 export type PlaceOrderInput = z.infer<typeof PlaceOrderZodSchema>;
+export type PreviewOrderInput = z.infer<typeof PreviewOrderZodSchema>;
+export type PlaceBracketOrderInput = z.infer<typeof PlaceBracketOrderZodSchema>;
+export type CancelOrderInput = z.infer<typeof CancelOrderZodSchema>;
+export type CancelAllOrdersInput = z.infer<typeof CancelAllOrdersZodSchema>;
+export type ModifyOrderInput = z.infer<typeof ModifyOrderZodSchema>;
+export type ApproveOrderInput = z.infer<typeof ApproveOrderZodSchema>;
+export type RejectOrderInput = z.infer<typeof RejectOrderZodSchema>;
 export type GetOrderStatusInput = z.infer<typeof GetOrderStatusZodSchema>;
+export type WaitForOrderInput = z.infer<typeof WaitForOrderZodSchema>;
 export type GetLiveOrdersInput = z.infer<typeof GetLiveOrdersZodSchema>;
+export type GetTradesInput = z.infer<typeof GetTradesZodSchema>;
 export type ConfirmOrderInput = z.infer<typeof ConfirmOrderZodSchema>;
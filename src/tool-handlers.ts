@@ -1,17 +1,53 @@
-import { IBClient } from "./ib-client.js";
+import { ZodTypeAny } from "zod";
+import { IBClient, OrderRequest } from "./ib-client.js";
 import { IBGatewayManager } from "./gateway-manager.js";
 import { HeadlessAuthenticator, HeadlessAuthConfig } from "./headless-auth.js";
 import open from "open";
 import { Logger } from "./logger.js";
+import { ContractResolutionError } from "./contract-resolver.js";
+import { OrderTicket, OrderTicketStore } from "./order-approval.js";
+import { statusOrderSide, statusOrderType } from "./order-status.js";
+import { TradingMode, accountTradingMode, sessionTradingMode } from "./trading-mode.js";
+import {
+  DailyOrderCounter,
+  RiskOrder,
+  RiskPolicy,
+  RiskViolation,
+  checkOrderRisk,
+  currentPositionFor,
+  loadRiskPolicy,
+  workingOrderExposure,
+} from "./risk-policy.js";
 import {
   AuthenticateInput,
   GetAccountInfoInput,
   GetPositionsInput,
+  GetAccountLedgerInput,
+  GetPnLInput,
+  ListAccountsInput,
+  SwitchAccountInput,
+  SearchContractsInput,
   GetMarketDataInput,
+  GetQuotesInput,
+  GetHistoricalDataInput,
+  GetOptionChainInput,
   PlaceOrderInput,
+  PreviewOrderInput,
+  PlaceBracketOrderInput,
+  CancelOrderInput,
+  CancelAllOrdersInput,
+  ModifyOrderInput,
   GetOrderStatusInput,
+  WaitForOrderInput,
   GetLiveOrdersInput,
+  GetTradesInput,
   ConfirmOrderInput,
+  ApproveOrderInput,
+  RejectOrderInput,
+  PlaceOrderZodSchema,
+  PreviewOrderZodSchema,
+  PlaceBracketOrderZodSchema,
+  ModifyOrderZodSchema,
 } from "./tool-definitions.js";
 
 export interface ToolHandlerContext {
@@ -29,9 +65,14 @@ export type ToolHandlerResult = {
 
 export class ToolHandlers {
   private context: ToolHandlerContext;
+  private riskPolicy: RiskPolicy;
+  private dailyOrders = new DailyOrderCounter();
+  private tickets: OrderTicketStore;
 
   constructor(context: ToolHandlerContext) {
     this.context = context;
+    this.riskPolicy = loadRiskPolicy(context.config);
+    this.tickets = new OrderTicketStore(context.config?.IB_APPROVAL_TTL || 300000);
   }
 
   // Ensure Gateway is ready before operations
@@ -122,11 +163,305 @@ export class ToolHandlers {
     if (this.isAuthenticationError(error)) {
       return this.getAuthenticationErrorMessage();
     }
+
+    // Show the candidate contracts so the caller can retry with an explicit conid
+    if (error instanceof ContractResolutionError && error.candidates.length > 0) {
+      return JSON.stringify({
+        error: error.message,
+        candidates: error.candidates,
+      }, null, 2);
+    }
     
     const errorMessage = error instanceof Error ? error.message : String(error);
     return `Error: ${errorMessage}`;
   }
 
+  /**
+   * Pick the account a tool works on: the one supplied, then IB_ACCOUNT, then the
+   * sole or currently selected brokerage account. Supplied ids must be known to the gateway.
+   */
+  private async resolveAccountId(accountId?: string): Promise<string> {
+    const requested = accountId || this.context.config.IB_ACCOUNT || undefined;
+    const { accounts, selectedAccount } = await this.context.ibClient.getAccounts();
+
+    if (requested) {
+      const match = accounts.find((account) => account.toUpperCase() === requested.toUpperCase());
+      if (!match) {
+        const source = accountId ? "Account" : "Configured IB_ACCOUNT";
+        throw new Error(`${source} ${requested} is not available in this session. Available accounts: ${accounts.join(", ") || "none"}`);
+      }
+      return match;
+    }
+
+    if (accounts.length === 1) {
+      return accounts[0];
+    }
+    if (selectedAccount && accounts.includes(selectedAccount)) {
+      return selectedAccount;
+    }
+    throw new Error(`Several accounts are available (${accounts.join(", ")}); pass accountId to choose one`);
+  }
+
+  /**
+   * Append the session's trading mode to a tool result, so every response says
+   * whether it came from a paper or a live session. After an authentication
+   * failure the accounts are not looked up, since that request would count as
+   * another authentication attempt.
+   */
+  async withTradingMode(result: ToolHandlerResult): Promise<ToolHandlerResult> {
+    let mode: TradingMode = "unknown";
+    const authFailed = result.content.some((item) => item.text.includes("Authentication required"));
+    if (!authFailed) {
+      try {
+        mode = sessionTradingMode(await this.context.ibClient.getAccountModes());
+      } catch (error) {
+        Logger.debug("[MODE] Could not determine trading mode:", error);
+      }
+    }
+    return {
+      ...result,
+      content: [...result.content, { type: "text", text: `Trading mode: ${mode}` }],
+    };
+  }
+
+  /**
+   * Orders may only go to a live account when IB_ALLOW_LIVE_TRADING is set.
+   * Without account metadata the id prefix decides, so unknown accounts count as live.
+   */
+  private async checkLiveTrading(accountId: string): Promise<RiskViolation[]> {
+    if (this.context.config.IB_ALLOW_LIVE_TRADING) {
+      return [];
+    }
+
+    const accounts = await this.context.ibClient.getAccountModes().catch((error) => {
+      Logger.warn("[MODE] Could not load account metadata, falling back to the account id:", error);
+      return [];
+    });
+    if (accountTradingMode(accountId, accounts) === "paper") {
+      return [];
+    }
+
+    return [{
+      rule: "liveTrading",
+      message: `${accountId} is a live account; set IB_ALLOW_LIVE_TRADING=true to trade it`,
+      actual: accountId,
+    }];
+  }
+
+  /**
+   * Check an order against the live trading guard and the configured risk policy.
+   * Prices and positions are only looked up when a limit that needs them is configured.
+   */
+  private async checkRisk(
+    order: RiskOrder & { accountId: string; conid?: number; secType?: string; exchange?: string; currency?: string; price?: number; stopPrice?: number },
+    replacesOrderId?: string
+  ): Promise<RiskViolation[]> {
+    const policy = this.riskPolicy;
+    const filter = { conid: order.conid, secType: order.secType, exchange: order.exchange, currency: order.currency };
+
+    let price: number | null | undefined;
+    if (policy.maxOrderNotional !== undefined) {
+      price = order.price ?? order.stopPrice;
+      if (price === undefined) {
+        // Market-style orders are valued at the last price
+        try {
+          const quote = await this.context.ibClient.getMarketData(order.symbol, filter, ["last"]);
+          price = typeof quote?.marketData?.last === "number" ? quote.marketData.last : null;
+        } catch (error) {
+          Logger.warn(`[RISK] Could not get a price for ${order.symbol}:`, error);
+          price = null;
+        }
+      }
+    }
+
+    let currentPosition: number | undefined;
+    if (policy.maxPositionSize !== undefined) {
+      // The portfolio cache lags fills, and resting orders may fill before this one
+      const positions = await this.context.ibClient.getPositions(order.accountId, { refresh: true });
+      const liveOrders = await this.context.ibClient.getOrders();
+      currentPosition = currentPositionFor(positions, order.symbol, order.conid) +
+        workingOrderExposure(liveOrders, order.accountId, order.symbol, order.conid, replacesOrderId);
+    }
+
+    return [
+      ...await this.checkLiveTrading(order.accountId),
+      ...checkOrderRisk(order, policy, {
+        price,
+        currentPosition,
+        ordersToday: this.dailyOrders.get(),
+      }),
+    ];
+  }
+
+  /**
+   * A bracket's stop-loss leg is a stop order, so it is checked alongside the entry.
+   */
+  private async checkBracketRisk(order: PlaceBracketOrderInput & { accountId: string }): Promise<RiskViolation[]> {
+    return this.checkRisk({ ...order, exitOrderTypes: ["LMT", "STP"] });
+  }
+
+  /**
+   * Check an amendment as the order it turns the working order into. Amending an
+   * order does not add to the daily order count, so that limit is not applied.
+   */
+  private async checkModificationRisk(modification: ModifyOrderInput & { accountId: string }, status: any): Promise<RiskViolation[]> {
+    const reported = (value: unknown): number | undefined =>
+      value === undefined || value === null || value === "" ? undefined : Number(value);
+
+    const violations = await this.checkRisk({
+      accountId: modification.accountId,
+      symbol: String(status?.ticker ?? status?.symbol ?? ""),
+      action: statusOrderSide(status),
+      orderType: statusOrderType(status),
+      quantity: modification.quantity ?? reported(status?.total_size ?? status?.size) ?? 0,
+      conid: reported(status?.conid),
+      price: modification.price ?? reported(status?.limit_price),
+      stopPrice: modification.auxPrice ?? reported(status?.stop_price),
+    }, modification.orderId);
+    return violations.filter((violation) => violation.rule !== "maxDailyOrders");
+  }
+
+  /**
+   * server.tool only validates the raw shape, so the cross-field refinements of the
+   * full schema are checked here. Returns the issues as a result when the input is invalid.
+   */
+  private validateInput(schema: ZodTypeAny, input: unknown): ToolHandlerResult | undefined {
+    const parsed = schema.safeParse(input);
+    if (parsed.success) {
+      return undefined;
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: false,
+            message: "Invalid order",
+            issues: parsed.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message })),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private formatRiskRejection(violations: RiskViolation[]): ToolHandlerResult {
+    Logger.warn("[RISK] Order rejected by risk policy:", violations);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            success: false,
+            rejected: true,
+            message: "Order rejected by risk policy",
+            violations: violations,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private formatPendingTicket(ticket: OrderTicket): ToolHandlerResult {
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            status: "pending_approval",
+            ticketId: ticket.id,
+            expiresAt: ticket.expiresAt,
+            order: ticket.order,
+            preview: ticket.preview,
+            message: ticket.kind === "modify"
+              ? "The amendment has not been sent. Call approve_order with this ticketId to apply it, or reject_order to discard it."
+              : "The order has not been sent. Call approve_order with this ticketId to place it, or reject_order to discard it.",
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private toOrderRequest(input: PlaceOrderInput & { accountId: string }): OrderRequest {
+    return {
+      accountId: input.accountId,
+      symbol: input.symbol,
+      conid: input.conid,
+      secType: input.secType,
+      exchange: input.exchange,
+      currency: input.currency,
+      action: input.action,
+      orderType: input.orderType,
+      quantity: input.quantity, // Already converted by Zod schema
+      price: input.price,
+      stopPrice: input.stopPrice,
+      trailingAmt: input.trailingAmt,
+      trailingType: input.trailingType,
+      tif: input.tif,
+      expiry: input.expiry,
+      outsideRth: input.outsideRth,
+      suppressConfirmations: input.suppressConfirmations,
+    };
+  }
+
+  private async submitOrder(input: PlaceOrderInput & { accountId: string }): Promise<any> {
+    const result = await this.context.ibClient.placeOrder(this.toOrderRequest(input));
+    this.dailyOrders.record();
+    return result;
+  }
+
+  /**
+   * With waitForFill, follow the placed order until it stops working, so the fill
+   * comes back in the same reply instead of through repeated status calls.
+   */
+  private async awaitFillIfRequested(input: PlaceOrderInput, result: any): Promise<any> {
+    if (!input.waitForFill) {
+      return result;
+    }
+
+    const orderId = result?.status === "placed" ? result.orders[0]?.orderId : undefined;
+    if (!orderId) {
+      return {
+        order: result,
+        fill: null,
+        message: "The order was not placed (it may still need confirmation), so there is no fill to wait for.",
+      };
+    }
+
+    const fill = await this.context.ibClient.waitForOrder(orderId, (input.fillTimeoutSeconds ?? 30) * 1000);
+    return { order: result, fill: fill };
+  }
+
+  private async submitModification(input: ModifyOrderInput & { accountId: string }): Promise<any> {
+    return this.context.ibClient.modifyOrder(input.accountId, input.orderId, {
+      price: input.price,
+      auxPrice: input.auxPrice,
+      quantity: input.quantity,
+      tif: input.tif,
+      suppressConfirmations: input.suppressConfirmations,
+    });
+  }
+
+  private async submitBracketOrder(input: PlaceBracketOrderInput & { accountId: string }): Promise<any> {
+    const result = await this.context.ibClient.placeBracketOrder({
+      accountId: input.accountId,
+      symbol: input.symbol,
+      conid: input.conid,
+      secType: input.secType,
+      exchange: input.exchange,
+      currency: input.currency,
+      action: input.action,
+      orderType: input.orderType,
+      quantity: input.quantity,
+      price: input.price,
+      takeProfitPrice: input.takeProfitPrice,
+      stopLossPrice: input.stopLossPrice,
+      suppressConfirmations: input.suppressConfirmations,
+    });
+    this.dailyOrders.record();
+    return result;
+  }
+
   async authenticate(input: AuthenticateInput): Promise<ToolHandlerResult> {
     try {
       // Ensure Gateway is ready
@@ -281,7 +616,7 @@ export class ToolHandlers {
         await this.ensureAuth();
       }
       
-      const result = await this.context.ibClient.getAccountInfo();
+      const result = await this.context.ibClient.getAccountInfo(input.verbosity ?? "compact");
       return {
         content: [
           {
@@ -304,16 +639,175 @@ export class ToolHandlers {
 
   async getPositions(input: GetPositionsInput): Promise<ToolHandlerResult> {
     try {
-      if (!input.accountId) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: "Account ID is required",
-            },
-          ],
-        };
+      // Ensure Gateway is ready
+      await this.ensureGatewayReady();
+      
+      // Ensure authentication in headless mode
+      if (this.context.config.IB_HEADLESS_MODE) {
+        await this.ensureAuth();
+      }
+      
+      const accountId = await this.resolveAccountId(input.accountId);
+      const result = await this.context.ibClient.getPositions(accountId, {
+        secType: input.secType,
+        symbol: input.symbol,
+        minMarketValue: input.minMarketValue,
+        sortBy: input.sortBy,
+        sortOrder: input.sortOrder,
+        refresh: input.refresh,
+      });
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: this.formatError(error),
+          },
+        ],
+      };
+    }
+  }
+
+  async getAccountLedger(input: GetAccountLedgerInput): Promise<ToolHandlerResult> {
+    try {
+      // Ensure Gateway is ready
+      await this.ensureGatewayReady();
+      
+      // Ensure authentication in headless mode
+      if (this.context.config.IB_HEADLESS_MODE) {
+        await this.ensureAuth();
+      }
+      
+      const accountId = await this.resolveAccountId(input.accountId);
+      const result = await this.context.ibClient.getAccountLedger(accountId);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: this.formatError(error),
+          },
+        ],
+      };
+    }
+  }
+
+  async getPnL(input: GetPnLInput): Promise<ToolHandlerResult> {
+    try {
+      // Ensure Gateway is ready
+      await this.ensureGatewayReady();
+      
+      // Ensure authentication in headless mode
+      if (this.context.config.IB_HEADLESS_MODE) {
+        await this.ensureAuth();
+      }
+      
+      // Every account unless one is named; position PnL always needs a single account
+      const accountId = input.accountId || input.includePositions
+        ? await this.resolveAccountId(input.accountId)
+        : undefined;
+      const result = await this.context.ibClient.getPnL(accountId, input.includePositions);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: this.formatError(error),
+          },
+        ],
+      };
+    }
+  }
+
+  async listAccounts(input: ListAccountsInput): Promise<ToolHandlerResult> {
+    try {
+      // Ensure Gateway is ready
+      await this.ensureGatewayReady();
+      
+      // Ensure authentication in headless mode
+      if (this.context.config.IB_HEADLESS_MODE) {
+        await this.ensureAuth();
+      }
+      
+      const result = await this.context.ibClient.listAccounts();
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: this.formatError(error),
+          },
+        ],
+      };
+    }
+  }
+
+  async switchAccount(input: SwitchAccountInput): Promise<ToolHandlerResult> {
+    try {
+      // Ensure Gateway is ready
+      await this.ensureGatewayReady();
+      
+      // Ensure authentication in headless mode
+      if (this.context.config.IB_HEADLESS_MODE) {
+        await this.ensureAuth();
       }
+      
+      const accountId = await this.resolveAccountId(input.accountId);
+      const result = await this.context.ibClient.switchAccount(accountId);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: this.formatError(error),
+          },
+        ],
+      };
+    }
+  }
+
+  async searchContracts(input: SearchContractsInput): Promise<ToolHandlerResult> {
+    try {
       // Ensure Gateway is ready
       await this.ensureGatewayReady();
       
@@ -322,7 +816,7 @@ export class ToolHandlers {
         await this.ensureAuth();
       }
       
-      const result = await this.context.ibClient.getPositions(input.accountId);
+      const result = await this.context.ibClient.searchContracts(input.symbol, input.secType);
       return {
         content: [
           {
@@ -353,7 +847,16 @@ export class ToolHandlers {
         await this.ensureAuth();
       }
       
-      const result = await this.context.ibClient.getMarketData(input.symbol, input.exchange);
+      const result = await this.context.ibClient.getMarketData(
+        input.symbol,
+        {
+          conid: input.conid,
+          secType: input.secType,
+          exchange: input.exchange,
+          currency: input.currency,
+        },
+        input.fields
+      );
       return {
         content: [
           {
@@ -374,7 +877,7 @@ export class ToolHandlers {
     }
   }
 
-  async placeOrder(input: PlaceOrderInput): Promise<ToolHandlerResult> {
+  async getQuotes(input: GetQuotesInput): Promise<ToolHandlerResult> {
     try {
       // Ensure Gateway is ready
       await this.ensureGatewayReady();
@@ -384,16 +887,8 @@ export class ToolHandlers {
         await this.ensureAuth();
       }
       
-      const result = await this.context.ibClient.placeOrder({
-        accountId: input.accountId,
-        symbol: input.symbol,
-        action: input.action,
-        orderType: input.orderType,
-        quantity: input.quantity, // Already converted by Zod schema
-        price: input.price,
-        stopPrice: input.stopPrice,
-        suppressConfirmations: input.suppressConfirmations,
-      });
+      const requests = input.symbols.map((item) => typeof item === "string" ? { symbol: item } : item);
+      const result = await this.context.ibClient.getQuotes(requests, input.fields);
       return {
         content: [
           {
@@ -414,7 +909,7 @@ export class ToolHandlers {
     }
   }
 
-  async getOrderStatus(input: GetOrderStatusInput): Promise<ToolHandlerResult> {
+  async getHistoricalData(input: GetHistoricalDataInput): Promise<ToolHandlerResult> {
     try {
       // Ensure Gateway is ready
       await this.ensureGatewayReady();
@@ -424,7 +919,21 @@ export class ToolHandlers {
         await this.ensureAuth();
       }
       
-      const result = await this.context.ibClient.getOrderStatus(input.orderId);
+      const result = await this.context.ibClient.getHistoricalData(
+        input.symbol,
+        {
+          period: input.period,
+          bar: input.bar,
+          outsideRth: input.outsideRth,
+          startTime: input.startTime,
+        },
+        {
+          conid: input.conid,
+          secType: input.secType,
+          exchange: input.exchange,
+          currency: input.currency,
+        }
+      );
       return {
         content: [
           {
@@ -445,7 +954,7 @@ export class ToolHandlers {
     }
   }
 
-  async getLiveOrders(input: GetLiveOrdersInput): Promise<ToolHandlerResult> {
+  async getOptionChain(input: GetOptionChainInput): Promise<ToolHandlerResult> {
     try {
       // Ensure Gateway is ready
       await this.ensureGatewayReady();
@@ -455,8 +964,499 @@ export class ToolHandlers {
         await this.ensureAuth();
       }
       
-      // Always fetch all orders (don't pass accountId as it causes API errors)
-      const result = await this.context.ibClient.getOrders();
+      const result = await this.context.ibClient.getOptionChain(
+        input.symbol,
+        {
+          exchange: input.exchange,
+          right: input.right,
+          moneyness: input.moneyness,
+          minDaysToExpiry: input.minDaysToExpiry,
+          maxDaysToExpiry: input.maxDaysToExpiry,
+          maxStrikes: input.maxStrikes,
+        },
+        input.conid
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: this.formatError(error),
+          },
+        ],
+      };
+    }
+  }
+
+  async placeOrder(input: PlaceOrderInput): Promise<ToolHandlerResult> {
+    try {
+      const invalid = this.validateInput(PlaceOrderZodSchema, input);
+      if (invalid) {
+        return invalid;
+      }
+      
+      // Ensure Gateway is ready
+      await this.ensureGatewayReady();
+      
+      // Ensure authentication in headless mode
+      if (this.context.config.IB_HEADLESS_MODE) {
+        await this.ensureAuth();
+      }
+      
+      const order = { ...input, accountId: await this.resolveAccountId(input.accountId) };
+      
+      const violations = await this.checkRisk(order);
+      if (violations.length > 0) {
+        return this.formatRiskRejection(violations);
+      }
+      
+      if (this.context.config.IB_REQUIRE_APPROVAL) {
+        const preview = await this.context.ibClient.previewOrder(this.toOrderRequest(order));
+        return this.formatPendingTicket(this.tickets.create("order", order, preview));
+      }
+      
+      const result = await this.awaitFillIfRequested(order, await this.submitOrder(order));
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: this.formatError(error),
+          },
+        ],
+      };
+    }
+  }
+
+  async previewOrder(input: PreviewOrderInput): Promise<ToolHandlerResult> {
+    try {
+      const invalid = this.validateInput(PreviewOrderZodSchema, input);
+      if (invalid) {
+        return invalid;
+      }
+      
+      // Ensure Gateway is ready
+      await this.ensureGatewayReady();
+      
+      // Ensure authentication in headless mode
+      if (this.context.config.IB_HEADLESS_MODE) {
+        await this.ensureAuth();
+      }
+      
+      const accountId = await this.resolveAccountId(input.accountId);
+      
+      const result = await this.context.ibClient.previewOrder({
+        accountId: accountId,
+        symbol: input.symbol,
+        conid: input.conid,
+        secType: input.secType,
+        exchange: input.exchange,
+        currency: input.currency,
+        action: input.action,
+        orderType: input.orderType,
+        quantity: input.quantity, // Already converted by Zod schema
+        price: input.price,
+        stopPrice: input.stopPrice,
+        trailingAmt: input.trailingAmt,
+        trailingType: input.trailingType,
+        tif: input.tif,
+        expiry: input.expiry,
+        outsideRth: input.outsideRth,
+      });
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: this.formatError(error),
+          },
+        ],
+      };
+    }
+  }
+
+  async placeBracketOrder(input: PlaceBracketOrderInput): Promise<ToolHandlerResult> {
+    try {
+      const invalid = this.validateInput(PlaceBracketOrderZodSchema, input);
+      if (invalid) {
+        return invalid;
+      }
+      
+      // Ensure Gateway is ready
+      await this.ensureGatewayReady();
+      
+      // Ensure authentication in headless mode
+      if (this.context.config.IB_HEADLESS_MODE) {
+        await this.ensureAuth();
+      }
+      
+      const order = { ...input, accountId: await this.resolveAccountId(input.accountId) };
+      
+      const violations = await this.checkBracketRisk(order);
+      if (violations.length > 0) {
+        return this.formatRiskRejection(violations);
+      }
+      
+      if (this.context.config.IB_REQUIRE_APPROVAL) {
+        // The preview covers the entry order; the exits only ever reduce the position
+        const preview = await this.context.ibClient.previewOrder({
+          accountId: order.accountId,
+          symbol: order.symbol,
+          conid: order.conid,
+          secType: order.secType,
+          exchange: order.exchange,
+          currency: order.currency,
+          action: order.action,
+          orderType: order.orderType,
+          quantity: order.quantity,
+          price: order.price,
+        });
+        return this.formatPendingTicket(this.tickets.create("bracket", order, preview));
+      }
+      
+      const result = await this.submitBracketOrder(order);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: this.formatError(error),
+          },
+        ],
+      };
+    }
+  }
+
+  async approveOrder(input: ApproveOrderInput): Promise<ToolHandlerResult> {
+    try {
+      // Ensure Gateway is ready
+      await this.ensureGatewayReady();
+      
+      // Ensure authentication in headless mode
+      if (this.context.config.IB_HEADLESS_MODE) {
+        await this.ensureAuth();
+      }
+      
+      const ticket = this.tickets.take(input.ticketId);
+      
+      // Limits are checked again since prices, positions and the daily count may have moved
+      let violations: RiskViolation[];
+      if (ticket.kind === "modify") {
+        violations = await this.checkModificationRisk(ticket.order, await this.context.ibClient.getOrderStatus(ticket.order.orderId));
+      } else if (ticket.kind === "bracket") {
+        violations = await this.checkBracketRisk(ticket.order);
+      } else {
+        violations = await this.checkRisk(ticket.order);
+      }
+      if (violations.length > 0) {
+        return this.formatRiskRejection(violations);
+      }
+      
+      let result: any;
+      if (ticket.kind === "modify") {
+        result = await this.submitModification(ticket.order);
+      } else if (ticket.kind === "bracket") {
+        result = await this.submitBracketOrder(ticket.order);
+      } else {
+        result = await this.awaitFillIfRequested(ticket.order, await this.submitOrder(ticket.order));
+      }
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ ticketId: ticket.id, approved: true, result: result }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: this.formatError(error),
+          },
+        ],
+      };
+    }
+  }
+
+  async rejectOrder(input: RejectOrderInput): Promise<ToolHandlerResult> {
+    try {
+      const ticket = this.tickets.take(input.ticketId);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ ticketId: ticket.id, rejected: true, order: ticket.order }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: this.formatError(error),
+          },
+        ],
+      };
+    }
+  }
+
+  async cancelOrder(input: CancelOrderInput): Promise<ToolHandlerResult> {
+    try {
+      // Ensure Gateway is ready
+      await this.ensureGatewayReady();
+      
+      // Ensure authentication in headless mode
+      if (this.context.config.IB_HEADLESS_MODE) {
+        await this.ensureAuth();
+      }
+      
+      const accountId = await this.resolveAccountId(input.accountId);
+      
+      const result = await this.context.ibClient.cancelOrder(accountId, input.orderId, input.suppressConfirmations);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: this.formatError(error),
+          },
+        ],
+      };
+    }
+  }
+
+  async cancelAllOrders(input: CancelAllOrdersInput): Promise<ToolHandlerResult> {
+    try {
+      // Ensure Gateway is ready
+      await this.ensureGatewayReady();
+      
+      // Ensure authentication in headless mode
+      if (this.context.config.IB_HEADLESS_MODE) {
+        await this.ensureAuth();
+      }
+      
+      const accountId = await this.resolveAccountId(input.accountId);
+      
+      const result = await this.context.ibClient.cancelAllOrders(accountId, input.symbol, input.suppressConfirmations);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: this.formatError(error),
+          },
+        ],
+      };
+    }
+  }
+
+  async modifyOrder(input: ModifyOrderInput): Promise<ToolHandlerResult> {
+    try {
+      const invalid = this.validateInput(ModifyOrderZodSchema, input);
+      if (invalid) {
+        return invalid;
+      }
+      
+      // Ensure Gateway is ready
+      await this.ensureGatewayReady();
+      
+      // Ensure authentication in headless mode
+      if (this.context.config.IB_HEADLESS_MODE) {
+        await this.ensureAuth();
+      }
+      
+      const modification = { ...input, accountId: await this.resolveAccountId(input.accountId) };
+      const status = await this.context.ibClient.getOrderStatus(input.orderId);
+      
+      const violations = await this.checkModificationRisk(modification, status);
+      if (violations.length > 0) {
+        return this.formatRiskRejection(violations);
+      }
+      
+      // The order as it stands now is the preview of an amendment
+      if (this.context.config.IB_REQUIRE_APPROVAL) {
+        return this.formatPendingTicket(this.tickets.create("modify", modification, status));
+      }
+      
+      const result = await this.submitModification(modification);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: this.formatError(error),
+          },
+        ],
+      };
+    }
+  }
+
+  async getOrderStatus(input: GetOrderStatusInput): Promise<ToolHandlerResult> {
+    try {
+      // Ensure Gateway is ready
+      await this.ensureGatewayReady();
+      
+      // Ensure authentication in headless mode
+      if (this.context.config.IB_HEADLESS_MODE) {
+        await this.ensureAuth();
+      }
+      
+      const result = await this.context.ibClient.getOrderStatus(input.orderId);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: this.formatError(error),
+          },
+        ],
+      };
+    }
+  }
+
+  async waitForOrder(input: WaitForOrderInput): Promise<ToolHandlerResult> {
+    try {
+      // Ensure Gateway is ready
+      await this.ensureGatewayReady();
+      
+      // Ensure authentication in headless mode
+      if (this.context.config.IB_HEADLESS_MODE) {
+        await this.ensureAuth();
+      }
+      
+      const result = await this.context.ibClient.waitForOrder(input.orderId, (input.timeoutSeconds ?? 30) * 1000);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: this.formatError(error),
+          },
+        ],
+      };
+    }
+  }
+
+  async getLiveOrders(input: GetLiveOrdersInput): Promise<ToolHandlerResult> {
+    try {
+      // Ensure Gateway is ready
+      await this.ensureGatewayReady();
+      
+      // Ensure authentication in headless mode
+      if (this.context.config.IB_HEADLESS_MODE) {
+        await this.ensureAuth();
+      }
+      
+      // Always fetch all orders (don't pass accountId as it causes API errors)
+      const result = await this.context.ibClient.getOrders();
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: this.formatError(error),
+          },
+        ],
+      };
+    }
+  }
+
+  async getTrades(input: GetTradesInput): Promise<ToolHandlerResult> {
+    try {
+      // Ensure Gateway is ready
+      await this.ensureGatewayReady();
+      
+      // Ensure authentication in headless mode
+      if (this.context.config.IB_HEADLESS_MODE) {
+        await this.ensureAuth();
+      }
+      
+      // Executions of every account unless one is named
+      const accountId = input.accountId ? await this.resolveAccountId(input.accountId) : undefined;
+      const result = await this.context.ibClient.getTrades(input.days ?? 1, accountId);
       return {
         content: [
           {
@@ -487,7 +1487,7 @@ export class ToolHandlers {
         await this.ensureAuth();
       }
       
-      const result = await this.context.ibClient.confirmOrder(input.replyId, input.messageIds);
+      const result = await this.context.ibClient.confirmOrderReplies(input.replyId, input.messageIds);
       return {
         content: [
           {
@@ -2,15 +2,33 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { IBClient } from "./ib-client.js";
 import { IBGatewayManager } from "./gateway-manager.js";
 import { ToolHandlers, ToolHandlerContext } from "./tool-handlers.js";
+import { DEFAULT_MARKET_DATA_FIELDS, MARKET_DATA_FIELD_NAMES } from "./market-data-fields.js";
 import { 
   AuthenticateZodShape,
   GetAccountInfoZodShape, 
   GetPositionsZodShape,
+  GetAccountLedgerZodShape,
+  GetPnLZodShape,
+  ListAccountsZodShape,
+  SwitchAccountZodShape,
+  SearchContractsZodShape,
   GetMarketDataZodShape,
+  GetQuotesZodShape,
+  GetHistoricalDataZodShape,
+  GetOptionChainZodShape,
   PlaceOrderZodShape,
+  PreviewOrderZodShape,
+  PlaceBracketOrderZodShape,
+  CancelOrderZodShape,
+  CancelAllOrdersZodShape,
+  ModifyOrderZodShape,
   GetOrderStatusZodShape,
+  WaitForOrderZodShape,
   GetLiveOrdersZodShape,
-  ConfirmOrderZodShape
+  GetTradesZodShape,
+  ConfirmOrderZodShape,
+  ApproveOrderZodShape,
+  RejectOrderZodShape
 } from "./tool-definitions.js";
 
 export function registerTools(
@@ -42,37 +60,117 @@ export function registerTools(
   // Register get_account_info tool
   server.tool(
     "get_account_info",
-    "Get account information and balances. Usage: `{ \"confirm\": true }`.",
+    "Get account balances: net liquidation, equity with loan, buying power, excess liquidity, maintenance margin, cushion and day trades left. " +
+    "Usage: `{ \"confirm\": true }`, or `{ \"confirm\": true, \"verbosity\": \"raw\" }` for every summary field as returned by IB.",
     GetAccountInfoZodShape,
-    async (args) => await handlers.getAccountInfo(args)
+    async (args) => await handlers.withTradingMode(await handlers.getAccountInfo(args))
   );
 
   // Register get_positions tool
   server.tool(
     "get_positions", 
-    "Get current positions. Usage: `{}` or `{ \"accountId\": \"<id>\" }`.",
+    "Get all current positions (every page). Usage: `{}` or `{ \"accountId\": \"<id>\" }`. " +
+    "Filter with secType, symbol or minMarketValue and sort with sortBy (marketValue, unrealizedPnl, symbol, position) and sortOrder, " +
+    "e.g. `{ \"secType\": \"STK\", \"minMarketValue\": 1000, \"sortBy\": \"marketValue\" }`. " +
+    "Pass `\"refresh\": true` to invalidate IB's portfolio cache first when positions changed recently (e.g. right after a fill).",
     GetPositionsZodShape,
-    async (args) => await handlers.getPositions(args)
+    async (args) => await handlers.withTradingMode(await handlers.getPositions(args))
+  );
+
+  // Register get_account_ledger tool
+  server.tool(
+    "get_account_ledger",
+    "Get cash balances by currency: cash, settled cash, unrealized/realized PnL and exchange rate to the base currency, " +
+    "plus a BASE entry aggregating all currencies. Usage: `{}` or `{ \"accountId\": \"<id>\" }`.",
+    GetAccountLedgerZodShape,
+    async (args) => await handlers.withTradingMode(await handlers.getAccountLedger(args))
+  );
+
+  // Register get_pnl tool
+  server.tool(
+    "get_pnl",
+    "Get daily PnL, unrealized PnL, net liquidation and market value per account. " +
+    "Usage: `{}` for every account, `{ \"accountId\": \"<id>\" }` for one, or `{ \"includePositions\": true }` to add unrealized/realized PnL per position.",
+    GetPnLZodShape,
+    async (args) => await handlers.withTradingMode(await handlers.getPnL(args))
+  );
+
+  // Register list_accounts tool
+  server.tool(
+    "list_accounts",
+    "List the accounts of this login with alias, type, currency and paper/live mode, and show which one is active. Usage: `{}`.",
+    ListAccountsZodShape,
+    async (args) => await handlers.withTradingMode(await handlers.listAccounts(args))
+  );
+
+  // Register switch_account tool
+  server.tool(
+    "switch_account",
+    "Make another account the active one (advisor and multi-account logins). Usage: `{ \"accountId\": \"U1234567\" }`. " +
+    "Order tools switch automatically when they are given a different accountId.",
+    SwitchAccountZodShape,
+    async (args) => await handlers.withTradingMode(await handlers.switchAccount(args))
+  );
+
+  // Register search_contracts tool
+  server.tool(
+    "search_contracts",
+    "List every contract matching a symbol (conid, company, secType, exchange, currency) so the right listing can be chosen. " +
+    "Usage: `{ \"symbol\": \"SHOP\" }` or `{ \"symbol\": \"BMW\", \"secType\": \"STK\" }`.",
+    SearchContractsZodShape,
+    async (args) => await handlers.withTradingMode(await handlers.searchContracts(args))
   );
 
   // Register get_market_data tool
   server.tool(
     "get_market_data",
-    "Get real-time market data. Usage: `{ \"symbol\": \"AAPL\" }` or `{ \"symbol\": \"AAPL\", \"exchange\": \"NASDAQ\" }`.",
+    "Get real-time market data. Usage: `{ \"symbol\": \"AAPL\" }`, `{ \"symbol\": \"AAPL\", \"exchange\": \"NASDAQ\" }` " +
+    "or `{ \"symbol\": \"SHOP\", \"conid\": 195014116 }`. Use search_contracts to find the conid for ambiguous symbols. " +
+    "Pick fields by name, e.g. `{ \"symbol\": \"AAPL\", \"fields\": [\"last\", \"volume\"] }`. " +
+    `Available fields: ${MARKET_DATA_FIELD_NAMES.join(", ")}. Default: ${DEFAULT_MARKET_DATA_FIELDS.join(", ")}.`,
     GetMarketDataZodShape,
-    async (args) => await handlers.getMarketData(args)
+    async (args) => await handlers.withTradingMode(await handlers.getMarketData(args))
+  );
+
+  // Register get_quotes tool
+  server.tool(
+    "get_quotes",
+    "Get market data for up to 100 symbols in one call; each symbol gets its own result or error. " +
+    "Usage: `{ \"symbols\": [\"AAPL\", \"MSFT\", { \"symbol\": \"SHOP\", \"conid\": 195014116 }] }` or " +
+    "`{ \"symbols\": [\"AAPL\", \"MSFT\"], \"fields\": [\"last\", \"changePercent\"] }`. Fields are the same as get_market_data.",
+    GetQuotesZodShape,
+    async (args) => await handlers.withTradingMode(await handlers.getQuotes(args))
+  );
+
+  // Register get_historical_data tool
+  server.tool(
+    "get_historical_data",
+    "Get historical OHLCV bars (ISO timestamps, oldest first). Usage: `{ \"symbol\": \"AAPL\", \"period\": \"1m\", \"bar\": \"1d\" }` or " +
+    "`{ \"symbol\": \"AAPL\", \"period\": \"2d\", \"bar\": \"5min\", \"outsideRth\": true, \"startTime\": \"20240105-16:00:00\" }`. " +
+    "period: <n>min|h|d|w|m|y; bar: <n>min|h|d|w|m; startTime (UTC, YYYYMMDD-HH:mm:ss) anchors the requested window.",
+    GetHistoricalDataZodShape,
+    async (args) => await handlers.withTradingMode(await handlers.getHistoricalData(args))
+  );
+
+  // Register get_option_chain tool
+  server.tool(
+    "get_option_chain",
+    "Get option expirations and strikes of an underlying with the call and put conid of each strike. " +
+    "Usage: `{ \"symbol\": \"AAPL\" }` or `{ \"symbol\": \"AAPL\", \"moneyness\": 0.05, \"maxDaysToExpiry\": 30, \"right\": \"C\" }`. " +
+    "Defaults: strikes within 10% of the last price (moneyness 0.1), at most 10 strikes per month (maxStrikes), " +
+    "expiries within 60 days (minDaysToExpiry/maxDaysToExpiry), exchange SMART. Pass conid when the symbol has several underlyings. " +
+    "Strikes that could not be looked up (failed, or beyond 200 lookups) are listed under incomplete with their month and right.",
+    GetOptionChainZodShape,
+    async (args) => await handlers.withTradingMode(await handlers.getOptionChain(args))
   );
 
-  // Register place_order tool
+  // Register preview_order tool
   server.tool(
-    "place_order",
-    "Place a trading order. Examples:\n" +
-    "- Market buy: `{ \"accountId\":\"abc\",\"symbol\":\"AAPL\",\"action\":\"BUY\",\"orderType\":\"MKT\",\"quantity\":1 }`\n" +
-    "- Limit sell: `{ \"accountId\":\"abc\",\"symbol\":\"AAPL\",\"action\":\"SELL\",\"orderType\":\"LMT\",\"quantity\":1,\"price\":185.5 }`\n" +
-    "- Stop sell: `{ \"accountId\":\"abc\",\"symbol\":\"AAPL\",\"action\":\"SELL\",\"orderType\":\"STP\",\"quantity\":1,\"stopPrice\":180 }`\n" +
-    "- Suppress confirmations: `{ \"accountId\":\"abc\",\"symbol\":\"AAPL\",\"action\":\"BUY\",\"orderType\":\"MKT\",\"quantity\":1,\"suppressConfirmations\":true }`",
-    PlaceOrderZodShape,
-    async (args) => await handlers.placeOrder(args)
+    "preview_order",
+    "Preview an order without placing it: commission range, initial/maintenance margin change, equity after the trade and IB warnings. " +
+    "Takes the same input as place_order, e.g. `{ \"accountId\":\"abc\",\"symbol\":\"AAPL\",\"action\":\"BUY\",\"orderType\":\"LMT\",\"quantity\":10,\"price\":185 }`.",
+    PreviewOrderZodShape,
+    async (args) => await handlers.withTradingMode(await handlers.previewOrder(args))
   );
 
   // Register get_order_status tool
@@ -80,23 +178,142 @@ export function registerTools(
     "get_order_status",
     "Get the status of a specific order. Usage: `{ \"orderId\": \"12345\" }`.",
     GetOrderStatusZodShape,
-    async (args) => await handlers.getOrderStatus(args)
+    async (args) => await handlers.withTradingMode(await handlers.getOrderStatus(args))
+  );
+
+  // Register wait_for_order tool
+  server.tool(
+    "wait_for_order",
+    "Wait until an order is Filled, Cancelled, Inactive or Rejected, polling with backoff, and return its final status and fill. " +
+    "Usage: `{ \"orderId\": \"12345\" }` or `{ \"orderId\": \"12345\", \"timeoutSeconds\": 45 }` (default 30, max 50). " +
+    "`timedOut: true` means the order was still working when the timeout passed.",
+    WaitForOrderZodShape,
+    async (args) => await handlers.withTradingMode(await handlers.waitForOrder(args))
   );
 
   // Register get_live_orders tool
   server.tool(
     "get_live_orders",
     "Get all live/open orders for monitoring and validation. Usage: `{}`. " +
-    "This is the recommended way to validate that market orders were executed successfully after placing them.",
+    "To confirm that a single order executed, prefer wait_for_order or place_order with waitForFill.",
     GetLiveOrdersZodShape,
-    async (args) => await handlers.getLiveOrders(args)
+    async (args) => await handlers.withTradingMode(await handlers.getLiveOrders(args))
   );
 
-  // Register confirm_order tool
+  // Register get_trades tool
   server.tool(
-    "confirm_order",
-    "Manually confirm an order that requires confirmation. Usage: `{ \"replyId\": \"742a95a7-55f6-4d67-861b-2fd3e2b61e3c\", \"messageIds\": [\"o10151\", \"o10153\"] }`.",
-    ConfirmOrderZodShape,
-    async (args) => await handlers.confirmOrder(args)
+    "get_trades",
+    "Get executed trades grouped by order, with average fill price, commission and realized PnL. " +
+    "Usage: `{}` for today, `{ \"days\": 7 }` for up to a week, optionally with `\"accountId\"`. " +
+    "Use it to verify what actually executed after place_order.",
+    GetTradesZodShape,
+    async (args) => await handlers.withTradingMode(await handlers.getTrades(args))
   );
+
+  // Trading tools are left out entirely in read-only mode
+  if (!userConfig?.IB_READ_ONLY) {
+    const approvalNote = userConfig?.IB_REQUIRE_APPROVAL
+      ? "\nApproval mode is on: the order is only previewed and parked as a ticket until approve_order releases it."
+      : "";
+    const replyNote =
+      "The reply has a status: placed (with order ids), rejected (with a reason) or needs_confirmation (answer with confirm_order). " +
+      "With `\"suppressConfirmations\": true`, IB messages in the auto-confirm list are confirmed and any other message rejects the order.";
+
+    // Register place_order tool
+    server.tool(
+      "place_order",
+      "Place a trading order. Examples:\n" +
+      "- Market buy: `{ \"accountId\":\"abc\",\"symbol\":\"AAPL\",\"action\":\"BUY\",\"orderType\":\"MKT\",\"quantity\":1 }`\n" +
+      "- Limit sell: `{ \"accountId\":\"abc\",\"symbol\":\"AAPL\",\"action\":\"SELL\",\"orderType\":\"LMT\",\"quantity\":1,\"price\":185.5 }`\n" +
+      "- Stop sell: `{ \"accountId\":\"abc\",\"symbol\":\"AAPL\",\"action\":\"SELL\",\"orderType\":\"STP\",\"quantity\":1,\"stopPrice\":180 }`\n" +
+      "- Stop limit: `{ \"accountId\":\"abc\",\"symbol\":\"AAPL\",\"action\":\"SELL\",\"orderType\":\"STOP_LIMIT\",\"quantity\":1,\"stopPrice\":180,\"price\":179.5 }`\n" +
+      "- Trailing stop: `{ \"accountId\":\"abc\",\"symbol\":\"AAPL\",\"action\":\"SELL\",\"orderType\":\"TRAIL\",\"quantity\":1,\"trailingAmt\":2,\"trailingType\":\"%\" }` " +
+      "(TRAILLMT also needs price; trailingType is \"amt\" or \"%\")\n" +
+      "- Market on close: `{ \"accountId\":\"abc\",\"symbol\":\"AAPL\",\"action\":\"BUY\",\"orderType\":\"MOC\",\"quantity\":1 }` (LOC also needs price)\n" +
+      "- Suppress confirmations: `{ \"accountId\":\"abc\",\"symbol\":\"AAPL\",\"action\":\"BUY\",\"orderType\":\"MKT\",\"quantity\":1,\"suppressConfirmations\":true }`\n" +
+      "- Good till cancelled, extended hours: `{ \"accountId\":\"abc\",\"symbol\":\"AAPL\",\"action\":\"BUY\",\"orderType\":\"LMT\",\"quantity\":1,\"price\":180,\"tif\":\"GTC\",\"outsideRth\":true }`\n" +
+      "- Good till date: `{ \"accountId\":\"abc\",\"symbol\":\"AAPL\",\"action\":\"BUY\",\"orderType\":\"LMT\",\"quantity\":1,\"price\":180,\"tif\":\"GTD\",\"expiry\":\"20240119-16:00:00\" }`\n" +
+      "- Explicit contract: `{ \"accountId\":\"abc\",\"symbol\":\"SHOP\",\"conid\":195014116,\"action\":\"BUY\",\"orderType\":\"MKT\",\"quantity\":1 }`\n" +
+      "- Wait for the fill: `{ \"accountId\":\"abc\",\"symbol\":\"AAPL\",\"action\":\"BUY\",\"orderType\":\"MKT\",\"quantity\":1,\"waitForFill\":true,\"fillTimeoutSeconds\":30 }` " +
+      "(fillTimeoutSeconds defaults to 30, max 50; returns `{ order, fill }` once the order is Filled, Cancelled, Inactive or Rejected, or `fill.timedOut` after the timeout)\n" +
+      "tif is one of DAY (default), GTC, IOC, OPG, GTD. accountId may be left out when IB_ACCOUNT is set or the session has a single/selected account.\n" +
+      "Orders are refused when the symbol matches several contracts; pass conid, or narrow it with secType/exchange/currency. A conid must be a stock (STK) of the symbol.\n" +
+      replyNote +
+      approvalNote,
+      PlaceOrderZodShape,
+      async (args) => await handlers.withTradingMode(await handlers.placeOrder(args))
+    );
+
+    // Register place_bracket_order tool
+    server.tool(
+      "place_bracket_order",
+      "Place an entry order with attached take-profit (LMT) and stop-loss (STP) exits as one group. Examples:\n" +
+      "- Limit entry: `{ \"accountId\":\"abc\",\"symbol\":\"AAPL\",\"action\":\"BUY\",\"orderType\":\"LMT\",\"quantity\":10,\"price\":185,\"takeProfitPrice\":195,\"stopLossPrice\":180 }`\n" +
+      "- Market entry: `{ \"accountId\":\"abc\",\"symbol\":\"AAPL\",\"action\":\"SELL\",\"orderType\":\"MKT\",\"quantity\":10,\"takeProfitPrice\":175,\"stopLossPrice\":190 }`\n" +
+      replyNote +
+      approvalNote,
+      PlaceBracketOrderZodShape,
+      async (args) => await handlers.withTradingMode(await handlers.placeBracketOrder(args))
+    );
+
+    // Register cancel_order tool
+    server.tool(
+      "cancel_order",
+      "Cancel a working order. Usage: `{ \"accountId\": \"abc\", \"orderId\": \"12345\" }`. " +
+      "The reply has a status: placed once IB accepts the cancellation, rejected (with a reason) or needs_confirmation (answer with confirm_order). " +
+      "With `\"suppressConfirmations\": true`, IB messages in the auto-confirm list are confirmed and any other message rejects the cancellation.",
+      CancelOrderZodShape,
+      async (args) => await handlers.withTradingMode(await handlers.cancelOrder(args))
+    );
+
+    // Register cancel_all_orders tool
+    server.tool(
+      "cancel_all_orders",
+      "Cancel every working order of an account, optionally only for one symbol. " +
+      "Usage: `{ \"accountId\": \"abc\" }` or `{ \"accountId\": \"abc\", \"symbol\": \"AAPL\" }`. " +
+      "Reports the result per order, with the same statuses and suppressConfirmations handling as cancel_order.",
+      CancelAllOrdersZodShape,
+      async (args) => await handlers.withTradingMode(await handlers.cancelAllOrders(args))
+    );
+
+    // Register modify_order tool
+    server.tool(
+      "modify_order",
+      "Amend a working order's price, stop price (auxPrice), quantity or tif; returns the order before and after. " +
+      "Usage: `{ \"accountId\": \"abc\", \"orderId\": \"12345\", \"price\": 186.25 }` or " +
+      "`{ \"accountId\": \"abc\", \"orderId\": \"12345\", \"quantity\": 5, \"tif\": \"GTC\" }`. " +
+      replyNote +
+      approvalNote,
+      ModifyOrderZodShape,
+      async (args) => await handlers.withTradingMode(await handlers.modifyOrder(args))
+    );
+
+    // Register confirm_order tool
+    server.tool(
+      "confirm_order",
+      "Manually confirm an order that requires confirmation. Usage: `{ \"replyId\": \"742a95a7-55f6-4d67-861b-2fd3e2b61e3c\", \"messageIds\": [\"o10151\", \"o10153\"] }`. " +
+      "Returns placed, rejected or needs_confirmation when IB asks about another message; confirm that one the same way.",
+      ConfirmOrderZodShape,
+      async (args) => await handlers.withTradingMode(await handlers.confirmOrder(args))
+    );
+
+    if (userConfig?.IB_REQUIRE_APPROVAL) {
+      // Register approve_order tool
+      server.tool(
+        "approve_order",
+        "Place an order that place_order or place_bracket_order parked for approval, or apply an amendment parked by modify_order. " +
+        "Usage: `{ \"ticketId\": \"<ticketId from place_order>\" }`. Tickets expire and can only be used once.",
+        ApproveOrderZodShape,
+        async (args) => await handlers.withTradingMode(await handlers.approveOrder(args))
+      );
+
+      // Register reject_order tool
+      server.tool(
+        "reject_order",
+        "Discard an order parked for approval without sending it. Usage: `{ \"ticketId\": \"<ticketId from place_order>\" }`.",
+        RejectOrderZodShape,
+        async (args) => await handlers.withTradingMode(await handlers.rejectOrder(args))
+      );
+    }
+  }
 }
\ No newline at end of file
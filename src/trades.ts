@@ -0,0 +1,93 @@
+// trades.ts
+// Groups /iserver/account/trades executions by the order that produced them.
+import { toNumber } from "./numbers.js";
+
+export interface Execution {
+  executionId: string;
+  time: string | null;
+  quantity: number;
+  price: number;
+  exchange: string | null;
+  commission: number | null;
+}
+
+export interface OrderTrades {
+  orderId: string;
+  accountId: string | null;
+  symbol: string;
+  conid: number | null;
+  secType: string | null;
+  side: "BUY" | "SELL";
+  quantity: number;
+  avgPrice: number;
+  commission: number;
+  // null when the gateway reports no realized PnL for any of the fills
+  realizedPnl: number | null;
+  firstFill: string | null;
+  lastFill: string | null;
+  executions: Execution[];
+}
+
+const toTime = (row: any): number | null => toNumber(row?.trade_time_r);
+
+const toIso = (time: number | null): string | null => (time !== null ? new Date(time).toISOString() : null);
+
+// Executions carry the order id on newer gateways; older ones only have the order ref
+const orderKeyOf = (row: any): string =>
+  String(row?.order_id ?? row?.orderId ?? row?.order_ref ?? row?.execution_id ?? "");
+
+/**
+ * Group executions by order. The average price is weighted by fill size; orders are
+ * returned newest fill first, and each order's executions oldest first.
+ */
+export function groupTradesByOrder(rows: any, accountId?: string): OrderTrades[] {
+  if (!Array.isArray(rows)) return [];
+
+  const groups = new Map<string, { first: any; rows: any[] }>();
+  for (const row of rows) {
+    const account = row?.account ?? row?.accountCode;
+    if (accountId && account !== accountId) continue;
+
+    const key = orderKeyOf(row);
+    const group = groups.get(key);
+    if (group) {
+      group.rows.push(row);
+    } else {
+      groups.set(key, { first: row, rows: [row] });
+    }
+  }
+
+  return [...groups.entries()]
+    .map(([orderId, { first, rows: fills }]) => {
+      const sorted = [...fills].sort((a, b) => (toTime(a) ?? 0) - (toTime(b) ?? 0));
+      const executions: Execution[] = sorted.map((row) => ({
+        executionId: String(row?.execution_id ?? ""),
+        time: toIso(toTime(row)),
+        quantity: Math.abs(toNumber(row?.size) ?? 0),
+        price: toNumber(row?.price) ?? 0,
+        exchange: row?.exchange ?? null,
+        commission: toNumber(row?.commission),
+      }));
+
+      const quantity = executions.reduce((sum, execution) => sum + execution.quantity, 0);
+      const notional = executions.reduce((sum, execution) => sum + execution.quantity * execution.price, 0);
+      const pnls = sorted.map((row) => toNumber(row?.realized_pnl ?? row?.realizedPnl)).filter((pnl): pnl is number => pnl !== null);
+
+      return {
+        orderId: orderId,
+        accountId: first?.account ?? first?.accountCode ?? null,
+        symbol: String(first?.symbol ?? first?.contract_description_1 ?? ""),
+        conid: toNumber(first?.conid),
+        secType: first?.sec_type ?? null,
+        side: String(first?.side ?? "").toUpperCase().startsWith("S") ? "SELL" as const : "BUY" as const,
+        quantity: quantity,
+        avgPrice: quantity > 0 ? notional / quantity : 0,
+        commission: executions.reduce((sum, execution) => sum + (execution.commission ?? 0), 0),
+        realizedPnl: pnls.length > 0 ? pnls.reduce((sum, pnl) => sum + pnl, 0) : null,
+        firstFill: executions[0]?.time ?? null,
+        lastFill: executions[executions.length - 1]?.time ?? null,
+        executions: executions,
+      };
+    })
+    .sort((a, b) => (b.lastFill ?? "").localeCompare(a.lastFill ?? ""));
+}
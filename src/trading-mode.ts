@@ -0,0 +1,51 @@
+// trading-mode.ts
+// Tells paper accounts from live ones, so trades can be refused when the
+// gateway is logged in to a live account that was not meant to be traded.
+
+export type TradingMode = "paper" | "live" | "unknown";
+
+export interface AccountMode {
+  accountId: string;
+  mode: "paper" | "live";
+}
+
+// Paper accounts are issued with a DU (individual) or DF (advisor) prefix
+const PAPER_ACCOUNT_PATTERN = /^D[UF]/i;
+
+export function isPaperAccountId(accountId: string): boolean {
+  return PAPER_ACCOUNT_PATTERN.test(accountId);
+}
+
+/**
+ * Classify the rows of a /portfolio/accounts response. Besides the id prefix,
+ * the gateway reports paper accounts with type "DEMO".
+ */
+export function classifyAccounts(accounts: any): AccountMode[] {
+  if (!Array.isArray(accounts)) return [];
+
+  return accounts
+    .map((account) => {
+      const accountId = String(account?.accountId ?? account?.id ?? "");
+      const paper = isPaperAccountId(accountId) || String(account?.type ?? "").toUpperCase() === "DEMO";
+      return { accountId, mode: paper ? "paper" as const : "live" as const };
+    })
+    .filter((account) => account.accountId.length > 0);
+}
+
+/**
+ * The session counts as live as soon as one of its accounts is live.
+ */
+export function sessionTradingMode(accounts: AccountMode[]): TradingMode {
+  if (accounts.length === 0) return "unknown";
+  return accounts.some((account) => account.mode === "live") ? "live" : "paper";
+}
+
+/**
+ * Mode of a single account. Accounts missing from the metadata fall back to
+ * the id prefix, so an unrecognised account is treated as live.
+ */
+export function accountTradingMode(accountId: string, accounts: AccountMode[]): "paper" | "live" {
+  const known = accounts.find((account) => account.accountId.toUpperCase() === accountId.toUpperCase());
+  if (known) return known.mode;
+  return isPaperAccountId(accountId) ? "paper" : "live";
+}
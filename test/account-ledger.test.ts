@@ -0,0 +1,53 @@
+// test/account-ledger.test.ts
+import { describe, it, expect } from 'vitest';
+import { normalizeLedger } from '../src/account-ledger.js';
+
+describe('Account Ledger', () => {
+  it('should split the BASE aggregate from the currencies', () => {
+    const ledger = normalizeLedger('U12345', {
+      USD: {
+        currency: 'USD', cashbalance: 19600.5, settledcash: 19600.5, unrealizedpnl: 1200, realizedpnl: 0,
+        exchangerate: 1, netliquidationvalue: 92600, stockmarketvalue: 73000, timestamp: 1709305200,
+      },
+      BASE: {
+        currency: 'BASE', cashbalance: 25000.5, settledcash: 25000.5, unrealizedpnl: 1200, realizedpnl: 0,
+        exchangerate: 1, netliquidationvalue: 98000, stockmarketvalue: 73000, timestamp: 1709305200,
+      },
+      EUR: {
+        currency: 'EUR', cashbalance: 5000, settledcash: 4000, exchangerate: 1.08, timestamp: 1709305100,
+      },
+    });
+
+    expect(ledger.accountId).toBe('U12345');
+    expect(ledger.base).toEqual({
+      currency: 'BASE',
+      cash: 25000.5,
+      settledCash: 25000.5,
+      unrealizedPnl: 1200,
+      realizedPnl: 0,
+      exchangeRate: 1,
+      netLiquidation: 98000,
+      stockMarketValue: 73000,
+    });
+    expect(ledger.currencies.map((entry) => entry.currency)).toEqual(['EUR', 'USD']);
+    expect(ledger.currencies[0]).toEqual(expect.objectContaining({ settledCash: 4000, unrealizedPnl: null }));
+    expect(ledger.updated).toBe('2024-03-01T15:00:00.000Z');
+  });
+
+  it('should fall back to the key when an entry has no currency', () => {
+    const ledger = normalizeLedger('U12345', { gbp: { cashbalance: '100.25' } });
+
+    expect(ledger.currencies).toEqual([expect.objectContaining({ currency: 'GBP', cash: 100.25 })]);
+    expect(ledger.base).toBeNull();
+    expect(ledger.updated).toBeNull();
+  });
+
+  it('should handle an empty response', () => {
+    expect(normalizeLedger('U12345', undefined)).toEqual({
+      accountId: 'U12345',
+      base: null,
+      currencies: [],
+      updated: null,
+    });
+  });
+});
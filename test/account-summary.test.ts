@@ -0,0 +1,50 @@
+// test/account-summary.test.ts
+import { describe, it, expect } from 'vitest';
+import { normalizeAccountSummary } from '../src/account-summary.js';
+
+describe('Account Summary', () => {
+  const entry = (amount: number | null, currency: string | null = 'USD') => ({
+    amount,
+    currency,
+    isNull: amount === null,
+    timestamp: 1709305200000,
+    value: null,
+  });
+
+  it('should keep the key balances as plain numbers', () => {
+    const summary = normalizeAccountSummary('U12345', {
+      netliquidation: entry(98000),
+      equitywithloanvalue: entry(97500),
+      buyingpower: entry(390000),
+      excessliquidity: entry(72000),
+      maintmarginreq: entry(25500),
+      cushion: entry(0.73, null),
+      daytradesremaining: entry(3, null),
+      accruedcash: entry(12),
+    });
+
+    expect(summary).toEqual({
+      accountId: 'U12345',
+      currency: 'USD',
+      netLiquidation: 98000,
+      equityWithLoan: 97500,
+      buyingPower: 390000,
+      excessLiquidity: 72000,
+      maintenanceMargin: 25500,
+      cushion: 0.73,
+      dayTradesRemaining: 3,
+    });
+  });
+
+  it('should map missing, null and unlimited values to null', () => {
+    const summary = normalizeAccountSummary('U12345', {
+      netliquidation: entry(null),
+      daytradesremaining: entry(-1, null),
+    });
+
+    expect(summary.netLiquidation).toBeNull();
+    expect(summary.buyingPower).toBeNull();
+    expect(summary.dayTradesRemaining).toBeNull();
+    expect(normalizeAccountSummary('U12345', undefined).currency).toBeNull();
+  });
+});
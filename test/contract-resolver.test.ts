@@ -0,0 +1,74 @@
+// test/contract-resolver.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  ContractResolutionError,
+  filterCandidates,
+  normalizeSearchResult,
+  selectContract,
+} from '../src/contract-resolver.js';
+
+describe('Contract Resolver', () => {
+  const candidates = [
+    { conid: 14094, symbol: 'BMW', secType: 'STK', exchange: 'IBIS', currency: 'EUR' },
+    { conid: 14095, symbol: 'BMW', secType: 'STK', exchange: 'LSE', currency: 'GBP' },
+    { conid: 14096, symbol: 'BMW', secType: 'IND', exchange: 'IBIS', currency: 'EUR' },
+  ];
+
+  describe('normalizeSearchResult', () => {
+    it('should map secdef search fields', () => {
+      const result = normalizeSearchResult({
+        conid: '265598',
+        companyName: 'APPLE INC',
+        companyHeader: 'APPLE INC - NASDAQ',
+        description: 'NASDAQ',
+        sections: [{ secType: 'STK' }, { secType: 'OPT' }],
+      }, 'AAPL');
+
+      expect(result).toEqual({
+        conid: 265598,
+        symbol: 'AAPL',
+        companyName: 'APPLE INC',
+        description: 'APPLE INC - NASDAQ',
+        secType: 'STK',
+        exchange: 'NASDAQ',
+        currency: undefined,
+      });
+    });
+  });
+
+  describe('filterCandidates', () => {
+    it('should match filters case-insensitively', () => {
+      const result = filterCandidates(candidates, { secType: 'stk', exchange: 'ibis' });
+      expect(result.map(c => c.conid)).toEqual([14094]);
+    });
+
+    it('should exclude candidates missing a filtered field', () => {
+      const result = filterCandidates([{ conid: 1, symbol: 'X' }], { currency: 'USD' });
+      expect(result).toEqual([]);
+    });
+  });
+
+  describe('selectContract', () => {
+    it('should throw when the symbol is not found', () => {
+      expect(() => selectContract('NOPE', [])).toThrow('Symbol NOPE not found');
+    });
+
+    it('should throw with candidates when strict and ambiguous', () => {
+      try {
+        selectContract('BMW', candidates, { secType: 'STK' });
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ContractResolutionError);
+        expect((error as ContractResolutionError).candidates).toHaveLength(2);
+      }
+    });
+
+    it('should return the first match when not strict', () => {
+      expect(selectContract('BMW', candidates, {}, false).conid).toBe(14094);
+    });
+
+    it('should return the single match for a narrowing filter', () => {
+      expect(selectContract('BMW', candidates, { currency: 'GBP' }).conid).toBe(14095);
+    });
+  });
+});
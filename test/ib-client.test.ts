@@ -1,6 +1,6 @@
 // test/ib-client.test.ts
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { IBClient } from '../src/ib-client.js';
+import { IBClient, isBlockedInReadOnlyMode } from '../src/ib-client.js';
 import axios from 'axios';
 
 // Mock axios
@@ -11,6 +11,7 @@ describe('IBClient', () => {
   const mockConfig = {
     host: 'localhost',
     port: 5000,
+    snapshotTimeoutMs: 0,
   };
 
   beforeEach(() => {
@@ -20,6 +21,7 @@ describe('IBClient', () => {
     const mockAxiosInstance = {
       get: vi.fn(),
       post: vi.fn(),
+      delete: vi.fn(),
       interceptors: {
         request: { use: vi.fn() },
         response: { use: vi.fn() },
@@ -29,6 +31,9 @@ describe('IBClient', () => {
     vi.mocked(axios.create).mockReturnValue(mockAxiosInstance as any);
     
     client = new IBClient(mockConfig);
+
+    // Single-account session unless a test says otherwise, so order calls never switch accounts
+    vi.spyOn(client, 'getAccounts').mockResolvedValue({ accounts: ['U12345'], selectedAccount: 'U12345' });
   });
 
   afterEach(() => {
@@ -59,6 +64,29 @@ describe('IBClient', () => {
     });
   });
 
+  describe('Read-Only Mode', () => {
+    it('should only block non-GET order requests', () => {
+      expect(isBlockedInReadOnlyMode('post', '/iserver/account/U12345/orders')).toBe(true);
+      expect(isBlockedInReadOnlyMode('post', '/iserver/account/U12345/order/987')).toBe(true);
+      expect(isBlockedInReadOnlyMode('delete', '/iserver/account/U12345/order/987')).toBe(true);
+      expect(isBlockedInReadOnlyMode('post', '/iserver/reply/abc-123')).toBe(true);
+      expect(isBlockedInReadOnlyMode('get', '/iserver/account/orders')).toBe(false);
+      expect(isBlockedInReadOnlyMode('post', '/iserver/account/U12345/orders/whatif')).toBe(false);
+      expect(isBlockedInReadOnlyMode('post', '/iserver/secdef/search')).toBe(false);
+    });
+
+    it('should refuse order requests in the request interceptor', async () => {
+      const readOnlyClient = new IBClient({ ...mockConfig, readOnly: true });
+      const instance = vi.mocked(axios.create).mock.results.at(-1)!.value;
+      const interceptor = instance.interceptors.request.use.mock.calls.at(-1)[0];
+
+      await expect(interceptor({ method: 'post', url: '/iserver/account/U12345/orders' }))
+        .rejects.toThrow('Read-only mode');
+
+      readOnlyClient.destroy();
+    });
+  });
+
   describe('Session Management', () => {
     it('should start tickle after successful authentication check', async () => {
       const mockAuthClient = {
@@ -136,6 +164,182 @@ describe('IBClient', () => {
         expect(result.accounts).toEqual(mockAccounts);
         expect(result.summaries).toHaveLength(1);
       });
+
+      it('should return only the key balances in compact mode', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get.mockResolvedValueOnce({ data: [{ id: 'U12345', accountId: 'U12345' }] });
+        mockClient.get.mockResolvedValueOnce({
+          data: { netliquidation: { amount: 10000, currency: 'USD', isNull: false } },
+        });
+
+        const result = await client.getAccountInfo('compact');
+
+        expect(result.accounts).toBeUndefined();
+        expect(result.summaries).toEqual([
+          expect.objectContaining({ accountId: 'U12345', currency: 'USD', netLiquidation: 10000, buyingPower: null }),
+        ]);
+      });
+    });
+
+    describe('getAccountLedger', () => {
+      it('should fetch and normalize the ledger', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get.mockResolvedValueOnce({
+          data: { BASE: { currency: 'BASE', cashbalance: 1000 }, USD: { currency: 'USD', cashbalance: 1000 } },
+        });
+
+        const result = await client.getAccountLedger('U12345');
+
+        expect(mockClient.get).toHaveBeenCalledWith('/portfolio/U12345/ledger');
+        expect(result.base?.cash).toBe(1000);
+        expect(result.currencies).toHaveLength(1);
+      });
+
+      it('should report failures with the account id', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get.mockRejectedValueOnce(new Error('Network error'));
+
+        await expect(client.getAccountLedger('U12345')).rejects.toThrow('Failed to retrieve the ledger for account U12345');
+      });
+    });
+
+    describe('getPnL', () => {
+      const pnlResponse = {
+        data: {
+          upnl: {
+            'U12345.Core': { rowType: 1, dpl: 15.7, nl: 10000, upl: 607, el: 9000, mv: 1800 },
+            'U67890.Core': { rowType: 1, dpl: -3, nl: 5000, upl: 0, el: 5000, mv: 0 },
+          },
+        },
+      };
+
+      it('should return the PnL of every account', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get.mockResolvedValueOnce(pnlResponse);
+
+        const result = await client.getPnL();
+
+        expect(mockClient.get).toHaveBeenCalledWith('/iserver/account/pnl/partitioned');
+        expect(result.accounts.map((account) => account.accountId)).toEqual(['U12345', 'U67890']);
+        expect(result.positions).toBeUndefined();
+      });
+
+      it('should narrow to one account and add position PnL', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get
+          .mockResolvedValueOnce(pnlResponse)
+          .mockResolvedValueOnce({ data: [{ conid: 265598, ticker: 'AAPL', position: 10, mktValue: 1800, unrealizedPnl: 120 }] });
+
+        const result = await client.getPnL('U12345', true);
+
+        expect(result.accounts).toEqual([expect.objectContaining({ accountId: 'U12345', dailyPnl: 15.7, unrealizedPnl: 607 })]);
+        expect(mockClient.get).toHaveBeenCalledWith('/portfolio/U12345/positions/0');
+        expect(result.positions).toEqual([expect.objectContaining({ symbol: 'AAPL', unrealizedPnl: 120 })]);
+      });
+
+      it('should report failures', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get.mockRejectedValueOnce(new Error('Network error'));
+
+        await expect(client.getPnL()).rejects.toThrow('Failed to retrieve PnL');
+      });
+    });
+
+    describe('getAccounts', () => {
+      it('should return the brokerage accounts and cache them', async () => {
+        vi.mocked(client.getAccounts).mockRestore();
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get.mockResolvedValueOnce({
+          data: { accounts: ['U12345', 'U67890'], selectedAccount: 'U67890' },
+        });
+
+        const result = await client.getAccounts();
+        await client.getAccounts();
+
+        expect(mockClient.get).toHaveBeenCalledWith('/iserver/accounts');
+        expect(mockClient.get).toHaveBeenCalledTimes(1);
+        expect(result).toEqual({ accounts: ['U12345', 'U67890'], selectedAccount: 'U67890' });
+      });
+    });
+
+    describe('switchAccount', () => {
+      it('should post the account and track it as active', async () => {
+        vi.mocked(client.getAccounts).mockRestore();
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get.mockResolvedValueOnce({ data: { accounts: ['U12345', 'U67890'], selectedAccount: 'U12345' } });
+        mockClient.post.mockResolvedValueOnce({ data: { set: true, acctId: 'U67890' } });
+
+        await client.getAccounts();
+        const result = await client.switchAccount('U67890');
+
+        expect(mockClient.post).toHaveBeenCalledWith('/iserver/account', { acctId: 'U67890' });
+        expect(result.activeAccount).toBe('U67890');
+        expect((await client.getAccounts()).selectedAccount).toBe('U67890');
+      });
+
+      it('should switch before acting on another account', async () => {
+        vi.mocked(client.getAccounts).mockResolvedValue({ accounts: ['U12345', 'U67890'], selectedAccount: 'U12345' });
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.post.mockResolvedValueOnce({ data: { set: true, acctId: 'U67890' } });
+        mockClient.delete.mockResolvedValueOnce({ data: { msg: 'Request was submitted' } });
+
+        await client.cancelOrder('U67890', '123');
+
+        expect(mockClient.post).toHaveBeenCalledWith('/iserver/account', { acctId: 'U67890' });
+        expect(mockClient.delete).toHaveBeenCalledWith('/iserver/account/U67890/order/123');
+      });
+
+      it('should not switch when the account is already active', async () => {
+        vi.mocked(client.getAccounts).mockResolvedValue({ accounts: ['U12345', 'U67890'], selectedAccount: 'U67890' });
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.delete.mockResolvedValueOnce({ data: { msg: 'Request was submitted' } });
+
+        await client.cancelOrder('U67890', '123');
+
+        expect(mockClient.post).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('listAccounts', () => {
+      it('should merge brokerage accounts with their metadata', async () => {
+        vi.mocked(client.getAccounts).mockResolvedValue({ accounts: ['U12345', 'DU67890'], selectedAccount: 'U12345' });
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get.mockResolvedValueOnce({
+          data: [
+            { id: 'U12345', accountId: 'U12345', accountAlias: 'Main', type: 'INDIVIDUAL', currency: 'USD' },
+            { id: 'DU67890', accountId: 'DU67890', type: 'INDIVIDUAL', currency: 'EUR' },
+          ],
+        });
+
+        const result = await client.listAccounts();
+
+        expect(result).toEqual({
+          activeAccount: 'U12345',
+          accounts: [
+            { accountId: 'U12345', alias: 'Main', type: 'INDIVIDUAL', currency: 'USD', mode: 'live' },
+            { accountId: 'DU67890', alias: undefined, type: 'INDIVIDUAL', currency: 'EUR', mode: 'paper' },
+          ],
+        });
+      });
+    });
+
+    describe('getAccountModes', () => {
+      it('should classify the accounts once per session', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get.mockResolvedValueOnce({
+          data: [{ id: 'DU12345', accountId: 'DU12345' }, { id: 'U67890', accountId: 'U67890' }],
+        });
+
+        const first = await client.getAccountModes();
+        const second = await client.getAccountModes();
+
+        expect(first).toEqual([
+          { accountId: 'DU12345', mode: 'paper' },
+          { accountId: 'U67890', mode: 'live' },
+        ]);
+        expect(second).toBe(first);
+        expect(mockClient.get).toHaveBeenCalledTimes(1);
+      });
     });
 
     describe('getPositions', () => {
@@ -147,9 +351,48 @@ describe('IBClient', () => {
         
         const result = await client.getPositions('U12345');
         
-        expect(mockClient.get).toHaveBeenCalledWith('/portfolio/U12345/positions');
+        expect(mockClient.get).toHaveBeenCalledWith('/portfolio/U12345/positions/0');
         expect(result).toEqual(mockPositions);
       });
+
+      it('should read every page', async () => {
+        const fullPage = Array.from({ length: 100 }, (_, i) => ({ conid: i, ticker: `S${i}`, position: 1 }));
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get
+          .mockResolvedValueOnce({ data: fullPage })
+          .mockResolvedValueOnce({ data: [{ conid: 100, ticker: 'LAST', position: 1 }] });
+
+        const result = await client.getPositions('U12345');
+
+        expect(mockClient.get).toHaveBeenCalledTimes(2);
+        expect(mockClient.get).toHaveBeenLastCalledWith('/portfolio/U12345/positions/1');
+        expect(result).toHaveLength(101);
+      });
+
+      it('should invalidate the portfolio cache on refresh', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.post.mockResolvedValueOnce({ data: { message: 'success' } });
+        mockClient.get.mockResolvedValueOnce({ data: [] });
+
+        await client.getPositions('U12345', { refresh: true });
+
+        expect(mockClient.post).toHaveBeenCalledWith('/portfolio/U12345/positions/invalidate');
+      });
+
+      it('should filter and sort the positions', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get.mockResolvedValueOnce({
+          data: [
+            { ticker: 'AAPL', assetClass: 'STK', mktValue: 1500 },
+            { ticker: 'MSFT', assetClass: 'STK', mktValue: 4000 },
+            { ticker: 'ES', assetClass: 'FUT', mktValue: 9000 },
+          ],
+        });
+
+        const result = await client.getPositions('U12345', { secType: 'stk', sortBy: 'marketValue' });
+
+        expect(result.map((row: any) => row.ticker)).toEqual(['MSFT', 'AAPL']);
+      });
     });
 
     describe('getMarketData', () => {
@@ -174,6 +417,26 @@ describe('IBClient', () => {
         expect(result).toBeDefined();
       });
 
+      it('should request named fields and return parsed values', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+
+        mockClient.get.mockResolvedValueOnce({
+          data: [{ conid: 265598, symbol: 'AAPL' }],
+        });
+        mockClient.get.mockResolvedValueOnce({
+          data: [{ conid: 265598, _updated: 1704376800000, '31': 'C182.50', '87': '1.2M', '83': '-0.45%' }],
+        });
+
+        const result = await client.getMarketData('AAPL', {}, ['last', 'volume', 'changePercent', 'bid']);
+
+        expect(mockClient.get).toHaveBeenCalledWith(
+          '/iserver/marketdata/snapshot?conids=265598&fields=31,87,83,84'
+        );
+        expect(result.marketData).toEqual({ last: 182.5, volume: 1200000, changePercent: -0.45, bid: null });
+        expect(result.units).toEqual({ last: 'price', volume: 'quantity', changePercent: 'percent', bid: 'price' });
+        expect(result.updated).toBe('2024-01-04T14:00:00.000Z');
+      });
+
       it('should throw error if symbol not found', async () => {
         const mockClient = vi.mocked(axios.create).mock.results[0].value;
         
@@ -186,6 +449,275 @@ describe('IBClient', () => {
       });
     });
 
+    describe('getMarketData snapshot warm-up', () => {
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('should re-poll an unprimed snapshot until the fields arrive', async () => {
+        vi.useFakeTimers();
+        const warmClient = new IBClient({ ...mockConfig, snapshotTimeoutMs: 5000 });
+        const mockClient = vi.mocked(axios.create).mock.results.at(-1)!.value;
+
+        mockClient.get.mockResolvedValueOnce({ data: [{ conid: 265598, symbol: 'AAPL' }] });
+        mockClient.get.mockResolvedValueOnce({ data: [{ conid: 265598, _updated: 1704376800000 }] });
+        mockClient.get.mockResolvedValueOnce({ data: [{ conid: 265598, '31': '182.5', '84': '182.4' }] });
+
+        const promise = warmClient.getMarketData('AAPL', {}, ['last', 'bid']);
+        await vi.runAllTimersAsync();
+        const result = await promise;
+
+        expect(mockClient.get).toHaveBeenCalledTimes(3);
+        expect(result.marketData).toEqual({ last: 182.5, bid: 182.4 });
+        expect(result.missingFields).toEqual([]);
+        warmClient.destroy();
+      });
+
+      it('should report fields still missing at the deadline', async () => {
+        vi.useFakeTimers();
+        const warmClient = new IBClient({ ...mockConfig, snapshotTimeoutMs: 1000 });
+        const mockClient = vi.mocked(axios.create).mock.results.at(-1)!.value;
+
+        mockClient.get.mockResolvedValueOnce({ data: [{ conid: 265598, symbol: 'AAPL' }] });
+        mockClient.get.mockResolvedValue({ data: [{ conid: 265598, '31': '182.5' }] });
+
+        const promise = warmClient.getMarketData('AAPL', {}, ['last', 'bid']);
+        await vi.runAllTimersAsync();
+        const result = await promise;
+
+        expect(mockClient.get.mock.calls.length).toBeGreaterThan(2);
+        expect(result.marketData.last).toBe(182.5);
+        expect(result.missingFields).toEqual(['bid']);
+        warmClient.destroy();
+      });
+    });
+
+    describe('getQuotes', () => {
+      it('should batch conids into one snapshot request and keep per-symbol errors', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+
+        mockClient.get.mockImplementation(async (url: string) => {
+          if (url.includes('symbol=AAPL')) return { data: [{ conid: 265598, symbol: 'AAPL' }] };
+          if (url.includes('symbol=NOPE')) return { data: [] };
+          return {
+            data: [
+              { conid: 265598, '31': '182.5' },
+              { conid: 272093, '31': '410.1' },
+            ],
+          };
+        });
+
+        const result = await client.getQuotes(
+          [{ symbol: 'AAPL' }, { symbol: 'MSFT', conid: 272093 }, { symbol: 'NOPE' }],
+          ['last']
+        );
+
+        expect(mockClient.get).toHaveBeenCalledWith('/iserver/marketdata/snapshot?conids=265598,272093&fields=31');
+        expect(result.units).toEqual({ last: 'price' });
+        expect(result.quotes[0]).toEqual(expect.objectContaining({ symbol: 'AAPL', marketData: { last: 182.5 } }));
+        expect(result.quotes[1]).toEqual(expect.objectContaining({ symbol: 'MSFT', marketData: { last: 410.1 } }));
+        expect(result.quotes[2]).toEqual({ symbol: 'NOPE', error: 'Symbol NOPE not found' });
+      });
+
+      it('should keep only a few contract searches in flight', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        const symbols = Array.from({ length: 12 }, (_, index) => `SYM${index}`);
+        let inFlight = 0;
+        let maxInFlight = 0;
+
+        mockClient.get.mockImplementation(async (url: string) => {
+          if (!url.startsWith('/iserver/secdef/search')) return { data: [] };
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await Promise.resolve();
+          inFlight--;
+          const symbol = new URLSearchParams(url.split('?')[1]).get('symbol');
+          return { data: [{ conid: symbols.indexOf(symbol!) + 1, symbol }] };
+        });
+
+        const result = await client.getQuotes(symbols.map((symbol) => ({ symbol })), ['last']);
+
+        expect(maxInFlight).toBeLessThanOrEqual(5);
+        expect(result.quotes.map((quote: any) => quote.symbol)).toEqual(symbols);
+      });
+    });
+
+    describe('getHistoricalData', () => {
+      it('should request history and normalize bars', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+
+        mockClient.get.mockResolvedValueOnce({
+          data: [{ conid: 265598, symbol: 'AAPL' }],
+        });
+        mockClient.get.mockResolvedValueOnce({
+          data: {
+            symbol: 'AAPL',
+            data: [
+              { t: 1704376800000, o: '182.1', h: 183.0, l: 181.5, c: 182.7, v: 1200 },
+              { t: 1704290400000, o: 184.2, h: 185.0, l: 183.1, c: 184.0, v: 900 },
+            ],
+          },
+        });
+
+        const result = await client.getHistoricalData('AAPL', { period: '2d', bar: '1d', outsideRth: true });
+
+        expect(mockClient.get).toHaveBeenCalledWith(
+          '/iserver/marketdata/history?conid=265598&period=2d&bar=1d&outsideRth=true'
+        );
+        expect(result.barCount).toBe(2);
+        expect(result.bars[0]).toEqual({
+          time: '2024-01-03T14:00:00.000Z',
+          open: 184.2,
+          high: 185.0,
+          low: 183.1,
+          close: 184.0,
+          volume: 900,
+        });
+        expect(result.bars[1].open).toBe(182.1);
+      });
+
+      it('should throw error if history request fails', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+
+        mockClient.get.mockRejectedValueOnce(new Error('Network error'));
+
+        await expect(
+          client.getHistoricalData('AAPL', { period: '1d', bar: '1h' }, { conid: 265598 })
+        ).rejects.toThrow('Failed to retrieve historical data for AAPL');
+      });
+    });
+
+    describe('searchContracts', () => {
+      it('should return every candidate with its currency', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+
+        mockClient.get.mockResolvedValueOnce({
+          data: [
+            { conid: 195014116, symbol: 'SHOP', companyName: 'SHOPIFY INC', description: 'NYSE', sections: [{ secType: 'STK' }] },
+            { conid: 195014118, symbol: 'SHOP', companyName: 'SHOPIFY INC', description: 'TSE', sections: [{ secType: 'STK' }] },
+          ],
+        });
+        mockClient.get.mockResolvedValueOnce({ data: { currency: 'USD' } });
+        mockClient.get.mockResolvedValueOnce({ data: { currency: 'CAD' } });
+
+        const result = await client.searchContracts('SHOP');
+
+        expect(mockClient.get).toHaveBeenCalledWith('/iserver/secdef/search?symbol=SHOP');
+        expect(mockClient.get).toHaveBeenCalledWith('/iserver/contract/195014116/info');
+        expect(result).toEqual([
+          expect.objectContaining({ conid: 195014116, secType: 'STK', exchange: 'NYSE', currency: 'USD' }),
+          expect.objectContaining({ conid: 195014118, secType: 'STK', exchange: 'TSE', currency: 'CAD' }),
+        ]);
+      });
+    });
+
+    describe('getOptionChain', () => {
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      const mockGateway = (mockClient: any) => {
+        mockClient.get.mockImplementation(async (url: string) => {
+          if (url.startsWith('/iserver/secdef/search')) {
+            return {
+              data: [
+                { conid: 1, symbol: 'AAPL', sections: [{ secType: 'STK' }] },
+                { conid: 265598, symbol: 'AAPL', companyName: 'APPLE INC', sections: [{ secType: 'STK' }, { secType: 'OPT', months: 'JAN24;FEB24;JUN24' }] },
+              ],
+            };
+          }
+          if (url.startsWith('/iserver/marketdata/snapshot')) {
+            return { data: [{ conid: 265598, '31': '186.00' }] };
+          }
+          if (url.startsWith('/iserver/secdef/strikes')) {
+            return { data: { call: [175, 180, 185, 190, 195, 250], put: [175, 180, 185, 190, 195, 250] } };
+          }
+          const params = new URLSearchParams(url.split('?')[1]);
+          const strike = Number(params.get('strike'));
+          const right = params.get('right');
+          const maturityDate = params.get('month') === 'JAN24' ? '20240119' : '20240216';
+          return { data: [{ conid: strike * 10 + (right === 'C' ? 1 : 2), strike, right, maturityDate, tradingClass: 'AAPL', multiplier: '100' }] };
+        });
+      };
+
+      it('should resolve the underlying and build the chain for the months in the window', async () => {
+        vi.useFakeTimers({ now: new Date('2024-01-02T15:00:00Z') });
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockGateway(mockClient);
+
+        const result = await client.getOptionChain('AAPL', { moneyness: 0.03, maxDaysToExpiry: 45 });
+
+        expect(mockClient.get).toHaveBeenCalledWith('/iserver/secdef/strikes?conid=265598&sectype=OPT&month=JAN24&exchange=SMART');
+        expect(mockClient.get).toHaveBeenCalledWith('/iserver/secdef/info?conid=265598&sectype=OPT&month=FEB24&exchange=SMART&strike=185&right=P');
+        expect(mockClient.get).not.toHaveBeenCalledWith(expect.stringContaining('month=JUN24'));
+        expect(result.underlying).toEqual(expect.objectContaining({ conid: 265598, companyName: 'APPLE INC' }));
+        expect(result.underlyingPrice).toBe(186);
+        expect(result.months).toEqual(['JAN24', 'FEB24']);
+        expect(result.expirations.map((expiration: any) => expiration.expiry)).toEqual(['2024-01-19', '2024-02-16']);
+        expect(result.expirations[0].strikes).toEqual([
+          { strike: 185, call: 1851, put: 1852 },
+          { strike: 190, call: 1901, put: 1902 },
+        ]);
+      });
+
+      it('should only request the asked right', async () => {
+        vi.useFakeTimers({ now: new Date('2024-01-02T15:00:00Z') });
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockGateway(mockClient);
+
+        const result = await client.getOptionChain('AAPL', { right: 'C', maxStrikes: 1, maxDaysToExpiry: 20 });
+
+        expect(mockClient.get).not.toHaveBeenCalledWith(expect.stringContaining('right=P'));
+        expect(result.expirations[0].strikes).toEqual([{ strike: 185, call: 1851, put: null }]);
+      });
+
+      it('should report strikes whose info request failed', async () => {
+        vi.useFakeTimers({ now: new Date('2024-01-02T15:00:00Z') });
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockGateway(mockClient);
+        const gateway = mockClient.get.getMockImplementation();
+        mockClient.get.mockImplementation(async (url: string) => {
+          if (url.includes('strike=190&right=P')) throw new Error('Request timed out');
+          return gateway(url);
+        });
+
+        const result = await client.getOptionChain('AAPL', { moneyness: 0.03, maxDaysToExpiry: 20 });
+
+        expect(result.incomplete).toEqual([{ month: 'JAN24', strike: 190, right: 'P', reason: 'failed' }]);
+        expect(result.expirations[0].strikes).toContainEqual({ strike: 190, call: 1901, put: null });
+      });
+
+      it('should keep only a few info requests in flight', async () => {
+        vi.useFakeTimers({ now: new Date('2024-01-02T15:00:00Z') });
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockGateway(mockClient);
+        const gateway = mockClient.get.getMockImplementation();
+        let inFlight = 0;
+        let maxInFlight = 0;
+        mockClient.get.mockImplementation(async (url: string) => {
+          if (!url.startsWith('/iserver/secdef/info')) return gateway(url);
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await Promise.resolve();
+          inFlight--;
+          return gateway(url);
+        });
+
+        const result = await client.getOptionChain('AAPL', { moneyness: 0.5, maxDaysToExpiry: 45 });
+
+        expect(maxInFlight).toBeLessThanOrEqual(5);
+        expect(result.incomplete).toEqual([]);
+        expect(result.expirations[1].strikes).toHaveLength(6);
+      });
+
+      it('should refuse symbols without listed options', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get.mockResolvedValueOnce({ data: [{ conid: 1, symbol: 'XYZ', sections: [{ secType: 'STK' }] }] });
+
+        await expect(client.getOptionChain('XYZ')).rejects.toThrow('No listed options found for XYZ');
+      });
+    });
+
     describe('placeOrder', () => {
       it('should place market order successfully', async () => {
         const mockClient = vi.mocked(axios.create).mock.results[0].value;
@@ -295,6 +827,367 @@ describe('IBClient', () => {
       });
     });
 
+    describe('placeOrder reply chain', () => {
+      const orderRequest = {
+        accountId: 'U12345',
+        symbol: 'AAPL',
+        conid: 265598,
+        action: 'BUY' as const,
+        orderType: 'LMT' as const,
+        quantity: 10,
+        price: 150,
+      };
+
+      beforeEach(() => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get.mockResolvedValueOnce({ data: { con_id: 265598, symbol: 'AAPL', instrument_type: 'STK' } });
+      });
+
+      it('should hand the first message back when confirmations are not suppressed', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.post.mockResolvedValueOnce({ data: [{ id: 'reply-1', message: ['Price exceeds limit'], messageIds: ['o163'] }] });
+
+        const result = await client.placeOrder(orderRequest);
+
+        expect(mockClient.post).toHaveBeenCalledTimes(1);
+        expect(result).toEqual(expect.objectContaining({
+          status: 'needs_confirmation',
+          replyId: 'reply-1',
+          messageIds: ['o163'],
+          message: ['Price exceeds limit'],
+        }));
+      });
+
+      it('should decline messages outside the auto-confirm list', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.post
+          .mockResolvedValueOnce({ data: [{ id: 'reply-1', message: ['No market data'], messageIds: ['o354'] }] })
+          .mockResolvedValueOnce({ data: [{ id: 'reply-2', message: ['Order size is large'], messageIds: ['o383'] }] })
+          .mockResolvedValueOnce({ data: [{ order_status: 'Cancelled' }] });
+
+        const result = await client.placeOrder({ ...orderRequest, suppressConfirmations: true });
+
+        expect(mockClient.post).toHaveBeenCalledWith('/iserver/reply/reply-1', { confirmed: true, messageIds: ['o354'] });
+        expect(mockClient.post).toHaveBeenCalledWith('/iserver/reply/reply-2', { confirmed: false, messageIds: ['o383'] });
+        expect(result.status).toBe('rejected');
+        expect(result.messages.map((message) => message.action)).toEqual(['confirmed', 'declined']);
+      });
+
+      it('should use the configured auto-confirm list', async () => {
+        const strictClient = new IBClient({ ...mockConfig, autoConfirmMessageIds: ['o383'] });
+        vi.spyOn(strictClient, 'getAccounts').mockResolvedValue({ accounts: ['U12345'], selectedAccount: 'U12345' });
+        const mockClient = vi.mocked(axios.create).mock.results.at(-1)!.value;
+        mockClient.post
+          .mockResolvedValueOnce({ data: [{ id: 'reply-1', message: ['Order size is large'], messageIds: ['o383'] }] })
+          .mockResolvedValueOnce({ data: [{ order_id: '1', order_status: 'Submitted' }] });
+
+        const result = await strictClient.placeOrder({ ...orderRequest, suppressConfirmations: true });
+
+        expect(result).toEqual(expect.objectContaining({ status: 'placed', orders: [{ orderId: '1', status: 'Submitted' }] }));
+        strictClient.destroy();
+      });
+
+      it('should report gateway errors as rejected', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.post.mockResolvedValueOnce({ data: { error: 'Order size exceeds available funds' } });
+
+        const result = await client.placeOrder(orderRequest);
+
+        expect(result).toEqual(expect.objectContaining({ status: 'rejected', reason: 'Order size exceeds available funds' }));
+      });
+    });
+
+    describe('placeOrder order types', () => {
+      const placeWith = async (extra: Record<string, unknown>) => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get.mockResolvedValueOnce({ data: { con_id: 265598, symbol: 'AAPL', instrument_type: 'STK' } });
+        mockClient.post.mockResolvedValueOnce({ data: [{ order_id: '1' }] });
+
+        await client.placeOrder({
+          accountId: 'U12345',
+          symbol: 'AAPL',
+          conid: 265598,
+          action: 'SELL',
+          quantity: 1,
+          ...extra,
+        } as any);
+
+        return mockClient.post.mock.calls[0][1].orders[0];
+      };
+
+      it('should send limit and stop prices for STOP_LIMIT', async () => {
+        const order = await placeWith({ orderType: 'STOP_LIMIT', price: 179.5, stopPrice: 180 });
+        expect(order).toEqual(expect.objectContaining({ orderType: 'STOP_LIMIT', price: 179.5, auxPrice: 180 }));
+      });
+
+      it('should send trailing offset for TRAIL', async () => {
+        const order = await placeWith({ orderType: 'TRAIL', trailingAmt: 2, trailingType: '%' });
+        expect(order).toEqual(expect.objectContaining({ orderType: 'TRAIL', trailingAmt: 2, trailingType: '%' }));
+        expect(order).not.toHaveProperty('price');
+      });
+
+      it('should send limit price and trailing offset for TRAILLMT', async () => {
+        const order = await placeWith({ orderType: 'TRAILLMT', price: 179, trailingAmt: 1.5, trailingType: 'amt' });
+        expect(order).toEqual(expect.objectContaining({ price: 179, trailingAmt: 1.5, trailingType: 'amt' }));
+      });
+
+      it('should send no price for MOC and a limit price for LOC', async () => {
+        const moc = await placeWith({ orderType: 'MOC' });
+        expect(moc).not.toHaveProperty('price');
+        expect(moc).not.toHaveProperty('auxPrice');
+
+        vi.mocked(axios.create).mock.results[0].value.post.mockClear();
+        const loc = await placeWith({ orderType: 'LOC', price: 181 });
+        expect(loc).toEqual(expect.objectContaining({ orderType: 'LOC', price: 181 }));
+      });
+    });
+
+    describe('placeOrder time in force', () => {
+      beforeEach(() => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get.mockResolvedValueOnce({ data: { con_id: 265598, symbol: 'AAPL', instrument_type: 'STK' } });
+      });
+
+      it('should default to DAY and omit outsideRTH', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+
+        mockClient.post.mockResolvedValueOnce({ data: [{ order_id: '1' }] });
+
+        await client.placeOrder({
+          accountId: 'U12345',
+          symbol: 'AAPL',
+          conid: 265598,
+          action: 'BUY',
+          orderType: 'MKT',
+          quantity: 1,
+        });
+
+        const order = mockClient.post.mock.calls[0][1].orders[0];
+        expect(order.tif).toBe('DAY');
+        expect(order).not.toHaveProperty('outsideRTH');
+      });
+
+      it('should pass GTD expiry and outsideRTH through', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+
+        mockClient.post.mockResolvedValueOnce({ data: [{ order_id: '1' }] });
+
+        await client.placeOrder({
+          accountId: 'U12345',
+          symbol: 'AAPL',
+          conid: 265598,
+          action: 'BUY',
+          orderType: 'LMT',
+          quantity: 1,
+          price: 180,
+          tif: 'GTD',
+          expiry: '20240119-16:00:00',
+          outsideRth: true,
+        });
+
+        expect(mockClient.post.mock.calls[0][1].orders[0]).toEqual(expect.objectContaining({
+          tif: 'GTD',
+          goodTillDate: '20240119-16:00:00',
+          outsideRTH: true,
+        }));
+      });
+    });
+
+    describe('placeOrder contract resolution', () => {
+      const orderRequest = {
+        accountId: 'U12345',
+        symbol: 'SHOP',
+        action: 'BUY' as const,
+        orderType: 'MKT' as const,
+        quantity: 1,
+      };
+      const shopResults = [
+        { conid: 195014116, symbol: 'SHOP', description: 'NYSE', sections: [{ secType: 'STK' }] },
+        { conid: 195014118, symbol: 'SHOP', description: 'TSE', sections: [{ secType: 'STK' }] },
+      ];
+
+      it('should refuse to trade an ambiguous symbol', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+
+        mockClient.get.mockResolvedValueOnce({ data: shopResults });
+
+        await expect(client.placeOrder(orderRequest)).rejects.toThrow('ambiguous');
+        expect(mockClient.post).not.toHaveBeenCalled();
+      });
+
+      it('should use the contract matching the exchange filter', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+
+        mockClient.get.mockResolvedValueOnce({ data: shopResults });
+        mockClient.post.mockResolvedValueOnce({ data: [{ order_id: '1' }] });
+
+        await client.placeOrder({ ...orderRequest, exchange: 'tse' });
+
+        expect(mockClient.post).toHaveBeenCalledWith(
+          '/iserver/account/U12345/orders',
+          { orders: [expect.objectContaining({ conid: 195014118 })] }
+        );
+      });
+
+      it('should check a given conid against the symbol instead of searching', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+
+        mockClient.get.mockResolvedValueOnce({ data: { con_id: 195014116, symbol: 'SHOP', instrument_type: 'STK', exchange: 'NYSE' } });
+        mockClient.post.mockResolvedValueOnce({ data: [{ order_id: '1' }] });
+
+        await client.placeOrder({ ...orderRequest, conid: 195014116 });
+
+        expect(mockClient.get).toHaveBeenCalledTimes(1);
+        expect(mockClient.get).toHaveBeenCalledWith('/iserver/contract/195014116/info');
+        expect(mockClient.post).toHaveBeenCalledWith(
+          '/iserver/account/U12345/orders',
+          { orders: [expect.objectContaining({ conid: 195014116 })] }
+        );
+      });
+
+      it('should refuse a conid that belongs to another symbol', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+
+        mockClient.get.mockResolvedValueOnce({ data: { con_id: 265598, symbol: 'AAPL', instrument_type: 'STK' } });
+
+        await expect(client.placeOrder({ ...orderRequest, conid: 265598 })).rejects.toThrow('Contract 265598 is AAPL, not SHOP');
+        expect(mockClient.post).not.toHaveBeenCalled();
+      });
+
+      it('should refuse an option conid even though it reports the underlying symbol', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+
+        mockClient.get.mockResolvedValueOnce({ data: { con_id: 681020012, symbol: 'SHOP', instrument_type: 'OPT', multiplier: '100' } });
+
+        await expect(client.placeOrder({ ...orderRequest, conid: 681020012 })).rejects.toThrow('Contract 681020012 has security type OPT');
+        expect(mockClient.post).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('previewOrder', () => {
+      beforeEach(() => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get.mockResolvedValueOnce({ data: { con_id: 265598, symbol: 'AAPL', instrument_type: 'STK' } });
+      });
+
+      it('should post to whatif and normalize the preview', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+
+        mockClient.post.mockResolvedValueOnce({
+          data: {
+            amount: { amount: '1,850.00 USD (10 Shares)', commission: '0.35 - 1.00 USD', total: '1,851.00 USD' },
+            equity: { current: '100,000', change: '-1', after: '99,999' },
+            initial: { current: '5,000', change: '925', after: '5,925' },
+            maintenance: { current: '4,000', change: '740', after: '4,740' },
+            position: { current: '0', change: '10', after: '10' },
+            warn: '21/You are trying to submit an order without having market data for this instrument.\n',
+            error: null,
+          },
+        });
+
+        const result = await client.previewOrder({
+          accountId: 'U12345',
+          symbol: 'AAPL',
+          conid: 265598,
+          action: 'BUY',
+          orderType: 'LMT',
+          quantity: 10,
+          price: 185,
+        });
+
+        expect(mockClient.post).toHaveBeenCalledWith('/iserver/account/U12345/orders/whatif', {
+          orders: [expect.objectContaining({ conid: 265598, orderType: 'LMT', price: 185 })],
+        });
+        expect(result.preview.commission).toEqual({ min: 0.35, max: 1, currency: 'USD' });
+        expect(result.preview.amount).toEqual({ value: 1850, currency: 'USD' });
+        expect(result.preview.initialMargin).toEqual({ current: 5000, change: 925, after: 5925 });
+        expect(result.preview.equityWithLoan.change).toBe(-1);
+        expect(result.preview.warnings).toEqual([
+          '21/You are trying to submit an order without having market data for this instrument.',
+        ]);
+        expect(result.preview.error).toBeUndefined();
+      });
+    });
+
+    describe('placeBracketOrder', () => {
+      const bracketRequest = {
+        accountId: 'U12345',
+        symbol: 'AAPL',
+        conid: 265598,
+        action: 'BUY' as const,
+        orderType: 'LMT' as const,
+        quantity: 10,
+        price: 185,
+        takeProfitPrice: 195,
+        stopLossPrice: 180,
+      };
+
+      beforeEach(() => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get.mockResolvedValueOnce({ data: { con_id: 265598, symbol: 'AAPL', instrument_type: 'STK' } });
+      });
+
+      it('should post parent and linked children in one request', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+
+        mockClient.post.mockResolvedValueOnce({ data: [{ order_id: '1' }, { order_id: '2' }, { order_id: '3' }] });
+
+        const result = await client.placeBracketOrder(bracketRequest);
+
+        const [url, body] = mockClient.post.mock.calls[0];
+        expect(url).toBe('/iserver/account/U12345/orders');
+        const [parent, takeProfit, stopLoss] = body.orders;
+        expect(parent).toEqual(expect.objectContaining({ conid: 265598, orderType: 'LMT', side: 'BUY', price: 185 }));
+        expect(parent.parentId).toBeUndefined();
+        expect(takeProfit).toEqual(expect.objectContaining({ parentId: parent.cOID, orderType: 'LMT', side: 'SELL', price: 195 }));
+        expect(stopLoss).toEqual(expect.objectContaining({ parentId: parent.cOID, orderType: 'STP', side: 'SELL', auxPrice: 180 }));
+        expect(result.parentOrderId).toBe(parent.cOID);
+      });
+
+      it('should confirm allowlisted messages in the reply chain when suppressing confirmations', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+
+        mockClient.post
+          .mockResolvedValueOnce({ data: [{ id: 'reply-1', message: ['Price exceeds limit'], messageIds: ['o163'] }] })
+          .mockResolvedValueOnce({ data: [{ id: 'reply-2', message: ['Order size warning'], messageIds: ['o354'] }] })
+          .mockResolvedValueOnce({ data: [{ order_id: '1', order_status: 'Submitted' }] });
+
+        const result = await client.placeBracketOrder({ ...bracketRequest, suppressConfirmations: true });
+
+        expect(mockClient.post).toHaveBeenCalledWith('/iserver/reply/reply-1', { confirmed: true, messageIds: ['o163'] });
+        expect(mockClient.post).toHaveBeenCalledWith('/iserver/reply/reply-2', { confirmed: true, messageIds: ['o354'] });
+        expect(result.result).toEqual(expect.objectContaining({
+          status: 'placed',
+          orders: [{ orderId: '1', status: 'Submitted' }],
+        }));
+        expect(result.result.messages.map((message: any) => message.action)).toEqual(['confirmed', 'confirmed']);
+      });
+    });
+
+    describe('getTrades', () => {
+      it('should fetch executions for the lookback and group them by order', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get.mockResolvedValueOnce({
+          data: [
+            { execution_id: 'e1', order_id: 101, symbol: 'AAPL', side: 'B', size: 5, price: '190', commission: '1', account: 'U12345' },
+            { execution_id: 'e2', order_id: 101, symbol: 'AAPL', side: 'B', size: 5, price: '192', commission: '1', account: 'U12345' },
+          ],
+        });
+
+        const result = await client.getTrades(3);
+
+        expect(mockClient.get).toHaveBeenCalledWith('/iserver/account/trades?days=3');
+        expect(result).toEqual([expect.objectContaining({ orderId: '101', quantity: 10, avgPrice: 191, commission: 2 })]);
+      });
+
+      it('should report failures', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get.mockRejectedValueOnce(new Error('Network error'));
+
+        await expect(client.getTrades()).rejects.toThrow('Failed to retrieve trades');
+      });
+    });
+
     describe('getOrders', () => {
       it('should fetch all orders', async () => {
         const mockClient = vi.mocked(axios.create).mock.results[0].value;
@@ -321,6 +1214,151 @@ describe('IBClient', () => {
       });
     });
 
+    describe('cancelOrder', () => {
+      it('should delete the order', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        const mockResponse = { msg: 'Request was submitted', order_id: 123 };
+
+        mockClient.delete.mockResolvedValueOnce({ data: mockResponse });
+
+        const result = await client.cancelOrder('U12345', '123');
+
+        expect(mockClient.delete).toHaveBeenCalledWith('/iserver/account/U12345/order/123');
+        expect(result).toEqual(expect.objectContaining({ status: 'placed', orders: [{ orderId: '123', status: null }], reply: mockResponse }));
+      });
+
+      it('should apply the auto-confirm list to cancellation messages', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+
+        mockClient.delete.mockResolvedValueOnce({ data: [{ id: 'reply-1', message: ['Cancel the parent order?'], messageIds: ['o10331'] }] });
+        mockClient.post.mockResolvedValueOnce({ data: {} });
+
+        const result = await client.cancelOrder('U12345', '123', true);
+
+        expect(mockClient.post).toHaveBeenCalledWith('/iserver/reply/reply-1', { confirmed: false, messageIds: ['o10331'] });
+        expect(result).toEqual(expect.objectContaining({ status: 'rejected' }));
+      });
+
+      it('should throw error if cancellation fails', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+
+        mockClient.delete.mockRejectedValueOnce(new Error('Network error'));
+
+        await expect(client.cancelOrder('U12345', '123')).rejects.toThrow('Failed to cancel order 123');
+      });
+    });
+
+    describe('cancelAllOrders', () => {
+      it('should cancel only working orders of the account and symbol', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+
+        mockClient.get.mockResolvedValueOnce({
+          data: {
+            orders: [
+              { orderId: 1, acct: 'U12345', ticker: 'AAPL', status: 'Submitted' },
+              { orderId: 2, acct: 'U12345', ticker: 'AAPL', status: 'Filled' },
+              { orderId: 3, acct: 'U12345', ticker: 'MSFT', status: 'PreSubmitted' },
+              { orderId: 4, acct: 'U99999', ticker: 'AAPL', status: 'Submitted' },
+              { orderId: 5, acct: 'U12345', ticker: 'aapl', status: 'PreSubmitted' },
+            ],
+          },
+        });
+        mockClient.delete
+          .mockResolvedValueOnce({ data: { msg: 'Request was submitted', order_id: 1 } })
+          .mockRejectedValueOnce(new Error('Order already cancelled'));
+
+        const result = await client.cancelAllOrders('U12345', 'AAPL');
+
+        expect(mockClient.delete).toHaveBeenCalledTimes(2);
+        expect(mockClient.delete).toHaveBeenCalledWith('/iserver/account/U12345/order/1');
+        expect(mockClient.delete).toHaveBeenCalledWith('/iserver/account/U12345/order/5');
+        expect(result.cancelled).toBe(1);
+        expect(result.failed).toBe(1);
+        expect(result.results[1]).toEqual({ orderId: '5', symbol: 'aapl', error: 'Order already cancelled' });
+      });
+    });
+
+    describe('modifyOrder', () => {
+      it('should post the amended order and return before and after state', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        const before = { order_id: 123, conid: 265598, side: 'B', order_type: 'LIMIT', total_size: '10.0', limit_price: '185.00', tif: 'DAY' };
+        const after = { ...before, limit_price: '186.25' };
+
+        mockClient.get
+          .mockResolvedValueOnce({ data: before })
+          .mockResolvedValueOnce({ data: after });
+        mockClient.post.mockResolvedValueOnce({ data: [{ order_id: '123', order_status: 'Submitted' }] });
+
+        const result = await client.modifyOrder('U12345', '123', { price: 186.25 });
+
+        expect(mockClient.post).toHaveBeenCalledWith('/iserver/account/U12345/order/123', {
+          conid: 265598,
+          orderType: 'LMT',
+          side: 'BUY',
+          quantity: 10,
+          price: 186.25,
+          tif: 'DAY',
+        });
+        expect(result.before).toEqual(before);
+        expect(result.after).toEqual(after);
+      });
+
+      it('should confirm reply messages when suppressing confirmations', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        const status = { conid: 265598, side: 'S', order_type: 'STOP', total_size: '5', stop_price: '170', tif: 'GTC' };
+
+        mockClient.get.mockResolvedValue({ data: status });
+        mockClient.post
+          .mockResolvedValueOnce({ data: [{ id: 'reply-1', message: ['Confirm change'], messageIds: ['o354'] }] })
+          .mockResolvedValueOnce({ data: [{ order_id: '123', order_status: 'Submitted' }] });
+
+        const result = await client.modifyOrder('U12345', '123', { auxPrice: 172, suppressConfirmations: true });
+
+        expect(mockClient.post).toHaveBeenCalledWith('/iserver/account/U12345/order/123', expect.objectContaining({
+          orderType: 'STP',
+          side: 'SELL',
+          auxPrice: 172,
+        }));
+        expect(mockClient.post).toHaveBeenCalledWith('/iserver/reply/reply-1', { confirmed: true, messageIds: ['o354'] });
+        expect(result.result).toEqual(expect.objectContaining({
+          status: 'placed',
+          orders: [{ orderId: '123', status: 'Submitted' }],
+        }));
+      });
+      it('should carry over outside-RTH, trailing and good-till-date settings', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        const status = {
+          conid: 265598, side: 'S', order_type: 'TRAILING_STOP', total_size: '5', tif: 'GTD',
+          outside_rth: true, trailing_amount: '2.5', trailing_type: '%', good_till_date: '20241231',
+        };
+
+        mockClient.get.mockResolvedValue({ data: status });
+        mockClient.post.mockResolvedValueOnce({ data: [{ order_id: '123', order_status: 'Submitted' }] });
+
+        await client.modifyOrder('U12345', '123', { quantity: 3 });
+
+        expect(mockClient.post).toHaveBeenCalledWith('/iserver/account/U12345/order/123', {
+          conid: 265598,
+          orderType: 'TRAIL',
+          side: 'SELL',
+          quantity: 3,
+          tif: 'GTD',
+          outsideRTH: true,
+          goodTillDate: '20241231',
+          trailingAmt: 2.5,
+          trailingType: '%',
+        });
+      });
+
+      it('should refuse trailing orders whose trailing amount is not reported', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get.mockResolvedValue({ data: { conid: 265598, side: 'S', order_type: 'TRAILING_STOP', total_size: '5', tif: 'DAY' } });
+
+        await expect(client.modifyOrder('U12345', '123', { quantity: 3 })).rejects.toThrow(/trailing amount is not reported/);
+        expect(mockClient.post).not.toHaveBeenCalledWith('/iserver/account/U12345/order/123', expect.anything());
+      });
+    });
+
     describe('getOrderStatus', () => {
       it('should fetch order status by ID', async () => {
         const mockClient = vi.mocked(axios.create).mock.results[0].value;
@@ -335,6 +1373,54 @@ describe('IBClient', () => {
       });
     });
 
+    describe('waitForOrder', () => {
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('should poll until the order reaches a terminal state', async () => {
+        vi.useFakeTimers();
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get
+          .mockResolvedValueOnce({ data: { order_status: 'PreSubmitted', cum_fill: 0, total_size: 10 } })
+          .mockResolvedValueOnce({ data: { order_status: 'Submitted', cum_fill: 4, total_size: 10 } })
+          .mockResolvedValueOnce({ data: { order_status: 'Filled', cum_fill: 10, total_size: 10, average_price: '190.5' } });
+
+        const promise = client.waitForOrder('123', 30000);
+        await vi.runAllTimersAsync();
+        const result = await promise;
+
+        expect(mockClient.get).toHaveBeenCalledTimes(3);
+        expect(mockClient.get).toHaveBeenCalledWith('/iserver/account/orders/123');
+        expect(result).toEqual(expect.objectContaining({
+          status: 'Filled', terminal: true, timedOut: false, filledQuantity: 10, avgPrice: 190.5,
+        }));
+      });
+
+      it('should report a timeout while the order is still working', async () => {
+        vi.useFakeTimers();
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get.mockResolvedValue({ data: { order_status: 'Submitted', cum_fill: 0, total_size: 10 } });
+
+        const promise = client.waitForOrder('123', 2000);
+        await vi.runAllTimersAsync();
+        const result = await promise;
+
+        expect(mockClient.get.mock.calls.length).toBeGreaterThan(1);
+        expect(result).toEqual(expect.objectContaining({ status: 'Submitted', terminal: false, timedOut: true }));
+      });
+
+      it('should stop polling once the order is cancelled through the API', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.get.mockResolvedValueOnce({ data: { order_status: 'ApiCancelled', cum_fill: 0, total_size: 10 } });
+
+        const result = await client.waitForOrder('123', 30000);
+
+        expect(mockClient.get).toHaveBeenCalledTimes(1);
+        expect(result).toEqual(expect.objectContaining({ status: 'ApiCancelled', terminal: true, timedOut: false }));
+      });
+    });
+
     describe('confirmOrder', () => {
       it('should confirm order with reply', async () => {
         const mockClient = vi.mocked(axios.create).mock.results[0].value;
@@ -351,6 +1437,28 @@ describe('IBClient', () => {
         expect(result).toEqual(mockResponse);
       });
     });
+
+    describe('confirmOrderReplies', () => {
+      it('should hand back messages that follow the confirmed one', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.post.mockResolvedValueOnce({ data: [{ id: 'reply-2', message: ['Order size warning'], messageIds: ['o354'] }] });
+
+        const result = await client.confirmOrderReplies('reply-1', ['o163']);
+
+        expect(mockClient.post).toHaveBeenCalledTimes(1);
+        expect(mockClient.post).toHaveBeenCalledWith('/iserver/reply/reply-1', { confirmed: true, messageIds: ['o163'] });
+        expect(result).toEqual(expect.objectContaining({ status: 'needs_confirmation', replyId: 'reply-2', messageIds: ['o354'] }));
+      });
+
+      it('should report the placed order once the chain ends', async () => {
+        const mockClient = vi.mocked(axios.create).mock.results[0].value;
+        mockClient.post.mockResolvedValueOnce({ data: [{ order_id: '1', order_status: 'Submitted' }] });
+
+        const result = await client.confirmOrderReplies('reply-1', ['o163']);
+
+        expect(result).toEqual(expect.objectContaining({ status: 'placed', orders: [{ orderId: '1', status: 'Submitted' }] }));
+      });
+    });
   });
 
   describe('Cleanup', () => {
@@ -0,0 +1,54 @@
+// test/market-data-fields.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  MARKET_DATA_FIELDS,
+  getMarketDataField,
+  parseFieldValue,
+  parseSnapshot,
+  toFieldIds,
+} from '../src/market-data-fields.js';
+
+describe('Market Data Fields', () => {
+  it('should have unique ids and names', () => {
+    const ids = MARKET_DATA_FIELDS.map(field => field.id);
+    const names = MARKET_DATA_FIELDS.map(field => field.name);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  it('should map names to field ids', () => {
+    expect(toFieldIds(['last', 'bid', 'ask'])).toEqual(['31', '84', '86']);
+  });
+
+  describe('parseFieldValue', () => {
+    it('should strip closing and halted price prefixes', () => {
+      expect(parseFieldValue(getMarketDataField('last'), 'C182.50')).toBe(182.5);
+      expect(parseFieldValue(getMarketDataField('last'), 'H99')).toBe(99);
+    });
+
+    it('should expand abbreviated quantities', () => {
+      expect(parseFieldValue(getMarketDataField('volume'), '12.5K')).toBe(12500);
+      expect(parseFieldValue(getMarketDataField('volume'), '1,234')).toBe(1234);
+    });
+
+    it('should parse percentages and negative values', () => {
+      expect(parseFieldValue(getMarketDataField('changePercent'), '-1.25%')).toBe(-1.25);
+    });
+
+    it('should return null for missing or unparseable values', () => {
+      expect(parseFieldValue(getMarketDataField('bid'), undefined)).toBeNull();
+      expect(parseFieldValue(getMarketDataField('bid'), 'N/A')).toBeNull();
+    });
+
+    it('should keep text fields as strings', () => {
+      expect(parseFieldValue(getMarketDataField('marketDataAvailability'), 'RpB')).toBe('RpB');
+    });
+  });
+
+  it('should return named values and units from a snapshot', () => {
+    const result = parseSnapshot({ conid: 265598, '84': '182.49', '86': '182.51' }, ['bid', 'ask', 'last']);
+
+    expect(result.values).toEqual({ bid: 182.49, ask: 182.51, last: null });
+    expect(result.units).toEqual({ bid: 'price', ask: 'price', last: 'price' });
+  });
+});
@@ -0,0 +1,61 @@
+// test/option-chain.test.ts
+import { describe, it, expect } from 'vitest';
+import { buildOptionChain, monthsInWindow, optionMonths, selectStrikes } from '../src/option-chain.js';
+
+const now = new Date('2024-01-02T15:00:00Z');
+
+describe('Option Chain', () => {
+  it('should list the option months of a search result', () => {
+    const months = optionMonths({
+      conid: 265598,
+      sections: [
+        { secType: 'STK' },
+        { secType: 'OPT', months: 'JAN24;FEB24;MAR24;JUN24', exchange: 'SMART;AMEX;CBOE' },
+      ],
+    });
+
+    expect(months).toEqual(['JAN24', 'FEB24', 'MAR24', 'JUN24']);
+    expect(optionMonths({ sections: [{ secType: 'STK' }] })).toEqual([]);
+  });
+
+  it('should keep the months that overlap the expiry window', () => {
+    const months = ['JAN24', 'FEB24', 'MAR24', 'JUN24'];
+
+    expect(monthsInWindow(months, 0, 45, now)).toEqual(['JAN24', 'FEB24']);
+    expect(monthsInWindow(months, 40, 90, now)).toEqual(['FEB24', 'MAR24']);
+  });
+
+  it('should pick the strikes nearest the price within the moneyness range', () => {
+    const strikes = [170, 175, 180, 185, 190, 195, 200, 205, 210];
+
+    expect(selectStrikes(strikes, 186, 0.05, 10)).toEqual([180, 185, 190, 195]);
+    expect(selectStrikes(strikes, 186, 0.1, 3)).toEqual([180, 185, 190]);
+  });
+
+  it('should fall back to the middle strikes without a price', () => {
+    expect(selectStrikes([100, 110, 120, 130, 140, 120], null, 0.1, 3)).toEqual([110, 120, 130]);
+    expect(selectStrikes([], null, 0.1, 3)).toEqual([]);
+  });
+
+  it('should group contracts into expirations with call and put conids', () => {
+    const chain = buildOptionChain([
+      { conid: 2, strike: 185, right: 'P', maturityDate: '20240119', tradingClass: 'AAPL', multiplier: '100' },
+      { conid: 1, strike: 185, right: 'C', maturityDate: '20240119', tradingClass: 'AAPL', multiplier: '100' },
+      { conid: 3, strike: 180, right: 'C', maturityDate: '20240119', tradingClass: 'AAPL', multiplier: '100' },
+      { conid: 4, strike: 185, right: 'C', maturityDate: '20240112', tradingClass: 'AAPL', multiplier: '100' },
+      { conid: 5, strike: 185, right: 'C', maturityDate: '20240621', tradingClass: 'AAPL', multiplier: '100' },
+    ], 0, 60, now);
+
+    expect(chain.map((expiration) => expiration.expiry)).toEqual(['2024-01-12', '2024-01-19']);
+    expect(chain[1]).toEqual({
+      expiry: '2024-01-19',
+      daysToExpiry: 17,
+      tradingClass: 'AAPL',
+      multiplier: 100,
+      strikes: [
+        { strike: 180, call: 3, put: null },
+        { strike: 185, call: 1, put: 2 },
+      ],
+    });
+  });
+});
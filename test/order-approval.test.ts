@@ -0,0 +1,50 @@
+// test/order-approval.test.ts
+import { describe, it, expect } from 'vitest';
+import { OrderTicketError, OrderTicketStore } from '../src/order-approval.js';
+
+describe('Order Approval', () => {
+  const order = { accountId: 'U12345', symbol: 'AAPL', action: 'BUY', orderType: 'LMT', quantity: 10, price: 185 };
+
+  it('should create tickets with an expiry', () => {
+    const store = new OrderTicketStore(60000);
+    const now = Date.parse('2024-03-01T15:00:00Z');
+
+    const ticket = store.create('order', order, { commission: {} }, now);
+
+    expect(ticket.id).toBeTruthy();
+    expect(ticket.kind).toBe('order');
+    expect(ticket.createdAt).toBe('2024-03-01T15:00:00.000Z');
+    expect(ticket.expiresAt).toBe('2024-03-01T15:01:00.000Z');
+  });
+
+  it('should hand out a ticket only once', () => {
+    const store = new OrderTicketStore(60000);
+    const ticket = store.create('order', order, null);
+
+    expect(store.take(ticket.id).order).toEqual(order);
+    expect(() => store.take(ticket.id)).toThrow(OrderTicketError);
+  });
+
+  it('should refuse expired tickets', () => {
+    const store = new OrderTicketStore(60000);
+    const now = Date.parse('2024-03-01T15:00:00Z');
+    const ticket = store.create('order', order, null, now);
+
+    try {
+      store.take(ticket.id, now + 60000);
+      expect.fail('expected the ticket to be expired');
+    } catch (error) {
+      expect(error).toBeInstanceOf(OrderTicketError);
+      expect((error as OrderTicketError).reason).toBe('expired');
+    }
+  });
+
+  it('should drop expired tickets when new ones are created', () => {
+    const store = new OrderTicketStore(60000);
+    const now = Date.parse('2024-03-01T15:00:00Z');
+    const stale = store.create('order', order, null, now);
+    store.create('order', order, null, now + 120000);
+
+    expect(() => store.take(stale.id, now + 120000)).toThrow('not found');
+  });
+});
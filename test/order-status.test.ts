@@ -0,0 +1,40 @@
+// test/order-status.test.ts
+import { describe, it, expect } from 'vitest';
+import { isTerminalOrderStatus, statusOrderSide, statusOrderType, summarizeOrderStatus } from '../src/order-status.js';
+
+describe('Order Status', () => {
+  it('should treat filled, cancelled, inactive and rejected orders as terminal', () => {
+    expect(['Filled', 'Cancelled', 'ApiCancelled', 'Inactive', 'Rejected'].every(isTerminalOrderStatus)).toBe(true);
+    expect(isTerminalOrderStatus('cancelled')).toBe(true);
+    expect(['Submitted', 'PreSubmitted', 'PendingCancel', undefined].some(isTerminalOrderStatus)).toBe(false);
+  });
+
+  it('should summarize the fill of a partially filled order', () => {
+    const fill = summarizeOrderStatus('123', {
+      order_id: 123, order_status: 'Submitted', cum_fill: '40', total_size: '100', average_price: '190.25',
+    });
+
+    expect(fill).toEqual({
+      orderId: '123',
+      status: 'Submitted',
+      terminal: false,
+      filledQuantity: 40,
+      totalQuantity: 100,
+      remainingQuantity: 60,
+      avgPrice: 190.25,
+    });
+  });
+
+  it('should leave unknown quantities as null', () => {
+    expect(summarizeOrderStatus('123', { status: 'Filled' })).toEqual(expect.objectContaining({
+      status: 'Filled', terminal: true, filledQuantity: null, remainingQuantity: null, avgPrice: null,
+    }));
+  });
+
+  it('should read the order type and side in the form the order endpoints take', () => {
+    expect(statusOrderType({ order_type: 'Stop Limit' })).toBe('STOP_LIMIT');
+    expect(statusOrderType({ orderType: 'LMT' })).toBe('LMT');
+    expect(statusOrderSide({ side: 'S' })).toBe('SELL');
+    expect(statusOrderSide({ side: 'B' })).toBe('BUY');
+  });
+});
@@ -0,0 +1,95 @@
+// test/order-submission.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { parseMessageIds, walkReplyChain, ReplyPolicy } from '../src/order-submission.js';
+
+const prompt = (id: string, messageIds: string[], text = 'Are you sure?') => [{ id, message: [text], messageIds }];
+const placed = [{ order_id: '1001', order_status: 'PreSubmitted' }];
+
+describe('Order Submission', () => {
+  const autoConfirm: ReplyPolicy = { autoConfirm: ['o163', 'o354'], onUnlisted: 'reject' };
+
+  it('should return placed orders when the gateway accepts right away', async () => {
+    const answer = vi.fn();
+
+    const outcome = await walkReplyChain(placed, answer, autoConfirm);
+
+    expect(answer).not.toHaveBeenCalled();
+    expect(outcome).toEqual({ status: 'placed', orders: [{ orderId: '1001', status: 'PreSubmitted' }], messages: [], reply: placed });
+  });
+
+  it('should confirm every allowlisted message in the chain and record it', async () => {
+    const answer = vi.fn()
+      .mockResolvedValueOnce(prompt('reply-2', ['o354'], 'No market data'))
+      .mockResolvedValueOnce(placed);
+
+    const outcome = await walkReplyChain(prompt('reply-1', ['o163'], 'Price exceeds limit'), answer, autoConfirm);
+
+    expect(answer).toHaveBeenNthCalledWith(1, 'reply-1', ['o163'], true);
+    expect(answer).toHaveBeenNthCalledWith(2, 'reply-2', ['o354'], true);
+    expect(outcome.status).toBe('placed');
+    expect(outcome.messages).toEqual([
+      { replyId: 'reply-1', messageIds: ['o163'], text: ['Price exceeds limit'], action: 'confirmed' },
+      { replyId: 'reply-2', messageIds: ['o354'], text: ['No market data'], action: 'confirmed' },
+    ]);
+  });
+
+  it('should decline and reject messages outside the allowlist', async () => {
+    const answer = vi.fn().mockResolvedValueOnce(prompt('reply-2', ['o383', 'o163'])).mockResolvedValueOnce([]);
+
+    const outcome = await walkReplyChain(prompt('reply-1', ['o163']), answer, autoConfirm);
+
+    expect(answer).toHaveBeenLastCalledWith('reply-2', ['o383', 'o163'], false);
+    expect(outcome).toEqual(expect.objectContaining({ status: 'rejected', reason: expect.stringContaining('o383') }));
+    expect(outcome.messages.map((message) => message.action)).toEqual(['confirmed', 'declined']);
+  });
+
+  it('should hand unlisted messages back when the policy asks', async () => {
+    const answer = vi.fn();
+
+    const outcome = await walkReplyChain(prompt('reply-1', ['o163']), answer, { autoConfirm: [], onUnlisted: 'ask' });
+
+    expect(answer).not.toHaveBeenCalled();
+    expect(outcome).toEqual(expect.objectContaining({
+      status: 'needs_confirmation', replyId: 'reply-1', messageIds: ['o163'], message: ['Are you sure?'],
+    }));
+  });
+
+  it('should treat messages without ids as unlisted', async () => {
+    const answer = vi.fn().mockResolvedValue([]);
+
+    const outcome = await walkReplyChain([{ id: 'reply-1', message: ['Confirm?'] }], answer, autoConfirm);
+
+    expect(outcome.status).toBe('rejected');
+  });
+
+  it('should report gateway errors as rejected', async () => {
+    const outcome = await walkReplyChain({ error: 'Insufficient funds' }, vi.fn(), autoConfirm);
+
+    expect(outcome).toEqual({ status: 'rejected', reason: 'Insufficient funds', messages: [] });
+  });
+
+  it('should decline and reject once the chain exceeds the maximum length', async () => {
+    const answer = vi.fn().mockResolvedValue(prompt('reply-n', ['o163']));
+
+    const outcome = await walkReplyChain(prompt('reply-1', ['o163']), answer, autoConfirm, 3);
+
+    expect(answer).toHaveBeenCalledTimes(4);
+    expect(answer).toHaveBeenLastCalledWith('reply-n', ['o163'], false);
+    expect(outcome).toEqual(expect.objectContaining({ status: 'rejected', reason: 'The reply chain exceeded 3 confirmations' }));
+  });
+
+  it('should hand the message back once the chain exceeds the maximum length when asking', async () => {
+    const answer = vi.fn().mockResolvedValue(prompt('reply-n', ['o163']));
+
+    const outcome = await walkReplyChain(prompt('reply-1', ['o163']), answer, { autoConfirm: ['o163'], onUnlisted: 'ask' }, 3);
+
+    expect(answer).toHaveBeenCalledTimes(3);
+    expect(outcome.status).toBe('needs_confirmation');
+  });
+
+  it('should parse message id lists', () => {
+    expect(parseMessageIds('O163, o354,')).toEqual(['o163', 'o354']);
+    expect(parseMessageIds(['o383'])).toEqual(['o383']);
+    expect(parseMessageIds(undefined)).toEqual([]);
+  });
+});
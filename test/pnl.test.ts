@@ -0,0 +1,39 @@
+// test/pnl.test.ts
+import { describe, it, expect } from 'vitest';
+import { normalizePartitionedPnl, toPositionPnl } from '../src/pnl.js';
+
+describe('PnL', () => {
+  it('should map the partitioned PnL per account', () => {
+    const accounts = normalizePartitionedPnl({
+      upnl: {
+        'U67890.Core': { rowType: 1, dpl: -42.5, nl: 51000, upl: 310, el: 20000, mv: 30500 },
+        'U12345.Core': { rowType: 1, dpl: 15.7, nl: 10000, upl: 607, el: 9000, mv: 0 },
+      },
+    });
+
+    expect(accounts).toEqual([
+      { accountId: 'U12345', dailyPnl: 15.7, unrealizedPnl: 607, netLiquidation: 10000, marketValue: 0, excessLiquidity: 9000 },
+      { accountId: 'U67890', dailyPnl: -42.5, unrealizedPnl: 310, netLiquidation: 51000, marketValue: 30500, excessLiquidity: 20000 },
+    ]);
+  });
+
+  it('should return null for missing values and no accounts for empty responses', () => {
+    expect(normalizePartitionedPnl({ upnl: { 'U12345.Core': { dpl: '12.5' } } })[0]).toEqual(
+      expect.objectContaining({ dailyPnl: 12.5, unrealizedPnl: null, marketValue: null })
+    );
+    expect(normalizePartitionedPnl({})).toEqual([]);
+    expect(normalizePartitionedPnl(undefined)).toEqual([]);
+  });
+
+  it('should map position rows to their PnL', () => {
+    const positions = toPositionPnl([
+      { conid: 265598, ticker: 'AAPL', position: 10, mktValue: 1800, unrealizedPnl: 120, realizedPnl: 0 },
+      { conid: 8314, contractDesc: 'IBM', position: -5, mktValue: -900 },
+    ]);
+
+    expect(positions[0]).toEqual({
+      conid: 265598, symbol: 'AAPL', position: 10, marketValue: 1800, unrealizedPnl: 120, realizedPnl: 0,
+    });
+    expect(positions[1]).toEqual(expect.objectContaining({ symbol: 'IBM', unrealizedPnl: null }));
+  });
+});
@@ -0,0 +1,33 @@
+// test/positions.test.ts
+import { describe, it, expect } from 'vitest';
+import { queryPositions } from '../src/positions.js';
+
+describe('Positions', () => {
+  const rows = [
+    { ticker: 'AAPL', assetClass: 'STK', position: 10, mktValue: 1850, unrealizedPnl: 150 },
+    { contractDesc: 'MSFT', assetClass: 'STK', position: -5, mktValue: -2100, unrealizedPnl: -40 },
+    { ticker: 'ES', assetClass: 'FUT', position: 1, mktValue: 250000, unrealizedPnl: 900 },
+    { ticker: 'SPY', assetClass: 'OPT', position: 2, mktValue: 300, unrealizedPnl: 20 },
+  ];
+
+  it('should return every row without a query', () => {
+    expect(queryPositions(rows)).toEqual(rows);
+  });
+
+  it('should filter by secType and symbol case-insensitively', () => {
+    expect(queryPositions(rows, { secType: 'stk' })).toHaveLength(2);
+    expect(queryPositions(rows, { symbol: 'msft' })).toEqual([rows[1]]);
+  });
+
+  it('should compare the minimum against the absolute market value', () => {
+    const result = queryPositions(rows, { minMarketValue: 2000 });
+
+    expect(result.map((row) => row.ticker ?? row.contractDesc)).toEqual(['MSFT', 'ES']);
+  });
+
+  it('should sort numbers descending and symbols ascending by default', () => {
+    expect(queryPositions(rows, { sortBy: 'unrealizedPnl' }).map((row) => row.unrealizedPnl)).toEqual([900, 150, 20, -40]);
+    expect(queryPositions(rows, { sortBy: 'symbol' }).map((row) => row.ticker ?? row.contractDesc)).toEqual(['AAPL', 'ES', 'MSFT', 'SPY']);
+    expect(queryPositions(rows, { sortBy: 'position', sortOrder: 'asc' }).map((row) => row.position)).toEqual([-5, 1, 2, 10]);
+  });
+});
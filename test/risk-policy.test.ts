@@ -0,0 +1,158 @@
+// test/risk-policy.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  DailyOrderCounter,
+  checkOrderRisk,
+  currentPositionFor,
+  loadRiskPolicy,
+  workingOrderExposure,
+} from '../src/risk-policy.js';
+
+describe('Risk Policy', () => {
+  const order = { symbol: 'AAPL', action: 'BUY' as const, orderType: 'LMT', quantity: 10 };
+
+  describe('loadRiskPolicy', () => {
+    it('should leave limits unset by default', () => {
+      expect(loadRiskPolicy({})).toEqual({
+        maxOrderNotional: undefined,
+        maxOrderQuantity: undefined,
+        maxDailyOrders: undefined,
+        maxPositionSize: undefined,
+        symbolAllowlist: undefined,
+        symbolDenylist: undefined,
+        allowMarketOrders: true,
+      });
+    });
+
+    it('should parse limits and comma separated symbol lists', () => {
+      const policy = loadRiskPolicy({
+        IB_RISK_MAX_ORDER_NOTIONAL: '10000',
+        IB_RISK_MAX_ORDER_QUANTITY: 100,
+        IB_RISK_SYMBOL_ALLOWLIST: 'aapl, msft,',
+        IB_RISK_SYMBOL_DENYLIST: ['gme'],
+        IB_RISK_ALLOW_MARKET_ORDERS: 'false',
+      });
+
+      expect(policy.maxOrderNotional).toBe(10000);
+      expect(policy.maxOrderQuantity).toBe(100);
+      expect(policy.symbolAllowlist).toEqual(['AAPL', 'MSFT']);
+      expect(policy.symbolDenylist).toEqual(['GME']);
+      expect(policy.allowMarketOrders).toBe(false);
+    });
+  });
+
+  describe('checkOrderRisk', () => {
+    it('should pass when no limits are configured', () => {
+      expect(checkOrderRisk(order, loadRiskPolicy({}), { ordersToday: 0 })).toEqual([]);
+    });
+
+    it('should enforce symbol allow and deny lists', () => {
+      const policy = loadRiskPolicy({ IB_RISK_SYMBOL_ALLOWLIST: 'MSFT', IB_RISK_SYMBOL_DENYLIST: 'aapl' });
+
+      const violations = checkOrderRisk(order, policy, { ordersToday: 0 });
+
+      expect(violations.map((v) => v.rule)).toEqual(['symbolAllowlist', 'symbolDenylist']);
+    });
+
+    it('should block market orders when disabled', () => {
+      const policy = loadRiskPolicy({ IB_RISK_ALLOW_MARKET_ORDERS: false });
+
+      expect(checkOrderRisk({ ...order, orderType: 'MKT' }, policy, { ordersToday: 0 })[0].rule).toBe('allowMarketOrders');
+      expect(checkOrderRisk({ ...order, orderType: 'MOC' }, policy, { ordersToday: 0 })[0].rule).toBe('allowMarketOrders');
+      expect(checkOrderRisk(order, policy, { ordersToday: 0 })).toEqual([]);
+    });
+
+    it('should treat stop and trailing stop orders as market orders when blocking them', () => {
+      const policy = loadRiskPolicy({ IB_RISK_ALLOW_MARKET_ORDERS: false });
+
+      expect(checkOrderRisk({ ...order, orderType: 'STP' }, policy, { ordersToday: 0 })[0].actual).toBe('STP');
+      expect(checkOrderRisk({ ...order, orderType: 'TRAIL' }, policy, { ordersToday: 0 })[0].actual).toBe('TRAIL');
+      expect(checkOrderRisk({ ...order, exitOrderTypes: ['LMT', 'STP'] }, policy, { ordersToday: 0 })[0].rule).toBe('allowMarketOrders');
+      expect(checkOrderRisk({ ...order, orderType: 'STOP_LIMIT' }, policy, { ordersToday: 0 })).toEqual([]);
+    });
+
+    it('should enforce max quantity and notional', () => {
+      const policy = loadRiskPolicy({ IB_RISK_MAX_ORDER_QUANTITY: 5, IB_RISK_MAX_ORDER_NOTIONAL: 1000 });
+
+      const violations = checkOrderRisk(order, policy, { price: 150, ordersToday: 0 });
+
+      expect(violations).toEqual([
+        expect.objectContaining({ rule: 'maxOrderQuantity', limit: 5, actual: 10 }),
+        expect.objectContaining({ rule: 'maxOrderNotional', limit: 1000, actual: 1500 }),
+      ]);
+    });
+
+    it('should reject when the notional cannot be priced', () => {
+      const policy = loadRiskPolicy({ IB_RISK_MAX_ORDER_NOTIONAL: 1000 });
+
+      const violations = checkOrderRisk(order, policy, { price: null, ordersToday: 0 });
+
+      expect(violations).toEqual([expect.objectContaining({ rule: 'maxOrderNotional', actual: null })]);
+    });
+
+    it('should enforce the daily order limit', () => {
+      const policy = loadRiskPolicy({ IB_RISK_MAX_DAILY_ORDERS: 3 });
+
+      expect(checkOrderRisk(order, policy, { ordersToday: 2 })).toEqual([]);
+      expect(checkOrderRisk(order, policy, { ordersToday: 3 })[0].rule).toBe('maxDailyOrders');
+    });
+
+    it('should check the position after the fill on either side', () => {
+      const policy = loadRiskPolicy({ IB_RISK_MAX_POSITION_SIZE: 50 });
+
+      expect(checkOrderRisk(order, policy, { currentPosition: 45, ordersToday: 0 })[0]).toEqual(
+        expect.objectContaining({ rule: 'maxPositionSize', actual: 55 })
+      );
+      expect(checkOrderRisk({ ...order, action: 'SELL' }, policy, { currentPosition: 45, ordersToday: 0 })).toEqual([]);
+      expect(checkOrderRisk({ ...order, action: 'SELL' }, policy, { currentPosition: -45, ordersToday: 0 })[0].actual).toBe(-55);
+    });
+  });
+
+  describe('DailyOrderCounter', () => {
+    it('should reset on a new UTC day', () => {
+      const counter = new DailyOrderCounter();
+      counter.record(new Date('2024-03-01T10:00:00Z'));
+      counter.record(new Date('2024-03-01T23:59:00Z'));
+
+      expect(counter.get(new Date('2024-03-01T23:59:30Z'))).toBe(2);
+      expect(counter.get(new Date('2024-03-02T00:00:01Z'))).toBe(0);
+    });
+  });
+
+  describe('currentPositionFor', () => {
+    const positions = [
+      { conid: 265598, ticker: 'AAPL', position: 30 },
+      { conid: 272093, contractDesc: 'MSFT', position: -10 },
+    ];
+
+    it('should match by conid or ticker', () => {
+      expect(currentPositionFor(positions, 'AAPL')).toBe(30);
+      expect(currentPositionFor(positions, 'msft')).toBe(-10);
+      expect(currentPositionFor(positions, 'ANY', 265598)).toBe(30);
+      expect(currentPositionFor(positions, 'TSLA')).toBe(0);
+      expect(currentPositionFor(undefined, 'AAPL')).toBe(0);
+    });
+  });
+
+  describe('workingOrderExposure', () => {
+    const liveOrders = {
+      orders: [
+        { orderId: 1, acct: 'U12345', conid: 265598, ticker: 'AAPL', side: 'BUY', remainingQuantity: 20, status: 'Submitted' },
+        { orderId: 2, acct: 'U12345', conid: 265598, ticker: 'AAPL', side: 'SELL', totalSize: 10, filledQuantity: 4, status: 'PreSubmitted' },
+        { orderId: 3, acct: 'U12345', conid: 265598, ticker: 'AAPL', side: 'BUY', remainingQuantity: 50, status: 'Filled' },
+        { orderId: 4, acct: 'U99999', conid: 265598, ticker: 'AAPL', side: 'BUY', remainingQuantity: 50, status: 'Submitted' },
+      ],
+    };
+
+    it('should sum the signed remaining size of the account\'s working orders', () => {
+      expect(workingOrderExposure(liveOrders, 'U12345', 'AAPL')).toBe(14);
+      expect(workingOrderExposure(liveOrders, 'U12345', 'ANY', 265598)).toBe(14);
+      expect(workingOrderExposure(liveOrders, 'U12345', 'MSFT')).toBe(0);
+      expect(workingOrderExposure(undefined, 'U12345', 'AAPL')).toBe(0);
+    });
+
+    it('should leave out the order being amended', () => {
+      expect(workingOrderExposure(liveOrders, 'U12345', 'AAPL', undefined, '1')).toBe(-6);
+    });
+  });
+});
@@ -2,11 +2,23 @@
 import { describe, it, expect } from 'vitest';
 import {
   PlaceOrderZodSchema,
+  PlaceBracketOrderZodSchema,
+  GetAccountInfoZodSchema,
   GetPositionsZodSchema,
   GetMarketDataZodSchema,
+  GetHistoricalDataZodSchema,
+  GetQuotesZodSchema,
   GetLiveOrdersZodSchema,
+  GetTradesZodSchema,
+  GetOptionChainZodSchema,
+  WaitForOrderZodSchema,
+  PreviewOrderZodShape,
+  PreviewOrderZodSchema,
   GetOrderStatusZodSchema,
   ConfirmOrderZodSchema,
+  CancelOrderZodSchema,
+  CancelAllOrdersZodSchema,
+  ModifyOrderZodSchema,
 } from '../src/tool-definitions.js';
 
 describe('Tool Definitions - Zod Schemas', () => {
@@ -152,6 +164,72 @@ describe('Tool Definitions - Zod Schemas', () => {
       expect(result.success).toBe(true);
     });
 
+    it('should accept GTC with outsideRth', () => {
+      const result = PlaceOrderZodSchema.safeParse({
+        accountId: 'U12345',
+        symbol: 'AAPL',
+        action: 'BUY' as const,
+        orderType: 'LMT' as const,
+        quantity: 10,
+        price: 150,
+        tif: 'GTC',
+        outsideRth: true,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should require expiry for GTD orders', () => {
+      const order = {
+        accountId: 'U12345',
+        symbol: 'AAPL',
+        action: 'BUY' as const,
+        orderType: 'LMT' as const,
+        quantity: 10,
+        price: 150,
+        tif: 'GTD',
+      };
+
+      expect(PlaceOrderZodSchema.safeParse(order).success).toBe(false);
+      expect(PlaceOrderZodSchema.safeParse({ ...order, expiry: '20240119-16:00:00' }).success).toBe(true);
+    });
+
+    it('should reject expiry without GTD', () => {
+      const result = PlaceOrderZodSchema.safeParse({
+        accountId: 'U12345',
+        symbol: 'AAPL',
+        action: 'BUY' as const,
+        orderType: 'MKT' as const,
+        quantity: 10,
+        expiry: '20240119-16:00:00',
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject OPG for stop orders', () => {
+      const result = PlaceOrderZodSchema.safeParse({
+        accountId: 'U12345',
+        symbol: 'AAPL',
+        action: 'SELL' as const,
+        orderType: 'STP' as const,
+        quantity: 10,
+        stopPrice: 140,
+        tif: 'OPG',
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject unknown tif values', () => {
+      const result = PlaceOrderZodSchema.safeParse({
+        accountId: 'U12345',
+        symbol: 'AAPL',
+        action: 'BUY' as const,
+        orderType: 'MKT' as const,
+        quantity: 10,
+        tif: 'FOREVER',
+      });
+      expect(result.success).toBe(false);
+    });
+
     it('should accept suppressConfirmations flag', () => {
       const validOrder = {
         accountId: 'U12345',
@@ -167,15 +245,108 @@ describe('Tool Definitions - Zod Schemas', () => {
     });
   });
 
+  describe('PlaceOrderZodSchema order types', () => {
+    const base = {
+      accountId: 'U12345',
+      symbol: 'AAPL',
+      action: 'SELL' as const,
+      quantity: 10,
+    };
+
+    const cases = [
+      { orderType: 'STOP_LIMIT', valid: { price: 179.5, stopPrice: 180 }, missing: ['price', 'stopPrice'] },
+      { orderType: 'TRAIL', valid: { trailingAmt: 2, trailingType: '%' }, missing: ['trailingAmt', 'trailingType'] },
+      { orderType: 'TRAILLMT', valid: { price: 179, trailingAmt: 1.5, trailingType: 'amt' }, missing: ['price', 'trailingAmt', 'trailingType'] },
+      { orderType: 'MOC', valid: {}, missing: [] },
+      { orderType: 'LOC', valid: { price: 181 }, missing: ['price'] },
+    ];
+
+    for (const { orderType, valid, missing } of cases) {
+      it(`should accept a complete ${orderType} order`, () => {
+        const result = PlaceOrderZodSchema.safeParse({ ...base, orderType, ...valid });
+        expect(result.success).toBe(true);
+      });
+
+      for (const field of missing) {
+        it(`should require ${field} for ${orderType} orders`, () => {
+          const order: Record<string, unknown> = { ...base, orderType, ...valid };
+          delete order[field];
+
+          const result = PlaceOrderZodSchema.safeParse(order);
+          expect(result.success).toBe(false);
+          if (!result.success) {
+            expect(result.error.issues[0].path).toEqual([field]);
+            expect(result.error.issues[0].message).toBe(`${orderType} orders require ${field}`);
+          }
+        });
+      }
+    }
+
+    it('should reject unknown trailingType', () => {
+      const result = PlaceOrderZodSchema.safeParse({ ...base, orderType: 'TRAIL', trailingAmt: 2, trailingType: 'pct' });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('PlaceBracketOrderZodSchema', () => {
+    const bracket = {
+      accountId: 'U12345',
+      symbol: 'AAPL',
+      action: 'BUY' as const,
+      orderType: 'LMT' as const,
+      quantity: 10,
+      price: 185,
+      takeProfitPrice: 195,
+      stopLossPrice: 180,
+    };
+
+    it('should accept a valid BUY bracket', () => {
+      expect(PlaceBracketOrderZodSchema.safeParse(bracket).success).toBe(true);
+    });
+
+    it('should accept a valid SELL bracket with market entry', () => {
+      const result = PlaceBracketOrderZodSchema.safeParse({
+        ...bracket,
+        action: 'SELL',
+        orderType: 'MKT',
+        price: undefined,
+        takeProfitPrice: 175,
+        stopLossPrice: 190,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should require price for LMT entries', () => {
+      expect(PlaceBracketOrderZodSchema.safeParse({ ...bracket, price: undefined }).success).toBe(false);
+    });
+
+    it('should reject a stop above the target on a BUY bracket', () => {
+      const result = PlaceBracketOrderZodSchema.safeParse({ ...bracket, takeProfitPrice: 180, stopLossPrice: 195 });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject an entry outside the exits', () => {
+      expect(PlaceBracketOrderZodSchema.safeParse({ ...bracket, price: 200 }).success).toBe(false);
+    });
+  });
+
+  describe('GetAccountInfoZodSchema', () => {
+    it('should accept an optional verbosity', () => {
+      expect(GetAccountInfoZodSchema.safeParse({ confirm: true }).success).toBe(true);
+      expect(GetAccountInfoZodSchema.safeParse({ confirm: true, verbosity: 'raw' }).success).toBe(true);
+      expect(GetAccountInfoZodSchema.safeParse({ confirm: true, verbosity: 'full' }).success).toBe(false);
+    });
+  });
+
   describe('GetPositionsZodSchema', () => {
     it('should accept accountId', () => {
       const result = GetPositionsZodSchema.safeParse({ accountId: 'U12345' });
       expect(result.success).toBe(true);
     });
 
-    it('should require accountId', () => {
+    it('should make accountId optional', () => {
       const result = GetPositionsZodSchema.safeParse({});
-      expect(result.success).toBe(false);
+      expect(result.success).toBe(true);
     });
   });
 
@@ -190,6 +361,24 @@ describe('Tool Definitions - Zod Schemas', () => {
       expect(result.success).toBe(true);
     });
 
+    it('should accept a conid given as a string', () => {
+      const result = GetMarketDataZodSchema.safeParse({ symbol: 'SHOP', conid: '195014116' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.conid).toBe(195014116);
+      }
+    });
+
+    it('should accept known field names', () => {
+      const result = GetMarketDataZodSchema.safeParse({ symbol: 'AAPL', fields: ['last', 'bid', 'changePercent'] });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject unknown field names', () => {
+      const result = GetMarketDataZodSchema.safeParse({ symbol: 'AAPL', fields: ['31'] });
+      expect(result.success).toBe(false);
+    });
+
     it('should accept symbol with exchange', () => {
       const result = GetMarketDataZodSchema.safeParse({ 
         symbol: 'AAPL', 
@@ -199,6 +388,45 @@ describe('Tool Definitions - Zod Schemas', () => {
     });
   });
 
+  describe('GetQuotesZodSchema', () => {
+    it('should accept symbols and contract objects', () => {
+      const result = GetQuotesZodSchema.safeParse({ symbols: ['AAPL', { symbol: 'SHOP', conid: '195014116' }] });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject an empty symbol list', () => {
+      const result = GetQuotesZodSchema.safeParse({ symbols: [] });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('GetHistoricalDataZodSchema', () => {
+    it('should accept period, bar and startTime', () => {
+      const result = GetHistoricalDataZodSchema.safeParse({
+        symbol: 'AAPL',
+        period: '1y',
+        bar: '1d',
+        startTime: '20240105-16:00:00',
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject malformed bar sizes', () => {
+      const result = GetHistoricalDataZodSchema.safeParse({ symbol: 'AAPL', period: '1d', bar: 'daily' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject malformed startTime', () => {
+      const result = GetHistoricalDataZodSchema.safeParse({
+        symbol: 'AAPL',
+        period: '1d',
+        bar: '1h',
+        startTime: '2024-01-05',
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
   describe('GetLiveOrdersZodSchema', () => {
     it('should accept empty object', () => {
       const result = GetLiveOrdersZodSchema.safeParse({});
@@ -211,6 +439,60 @@ describe('Tool Definitions - Zod Schemas', () => {
     });
   });
 
+  describe('WaitForOrderZodSchema', () => {
+    it('should accept an order id with an optional timeout', () => {
+      expect(WaitForOrderZodSchema.safeParse({ orderId: '123' }).success).toBe(true);
+      expect(WaitForOrderZodSchema.safeParse({ orderId: '123', timeoutSeconds: 45 }).success).toBe(true);
+    });
+
+    it('should cap the timeout', () => {
+      expect(WaitForOrderZodSchema.safeParse({ orderId: '123', timeoutSeconds: 60 }).success).toBe(false);
+      expect(WaitForOrderZodSchema.safeParse({ orderId: '123', timeoutSeconds: 600 }).success).toBe(false);
+    });
+
+    it('should keep waiting options out of previews', () => {
+      expect(PreviewOrderZodShape).not.toHaveProperty('waitForFill');
+      expect(PreviewOrderZodShape).toHaveProperty('symbol');
+    });
+
+    it('should apply the order rules to previews without their waiting options', () => {
+      const preview = PreviewOrderZodSchema.safeParse({
+        symbol: 'AAPL', action: 'BUY', orderType: 'LMT', quantity: 1, price: 180, waitForFill: true,
+      });
+
+      expect(preview.success).toBe(true);
+      expect(preview.data).not.toHaveProperty('waitForFill');
+      expect(PreviewOrderZodSchema.safeParse({ symbol: 'AAPL', action: 'BUY', orderType: 'LMT', quantity: 1 }).success).toBe(false);
+    });
+  });
+
+  describe('GetOptionChainZodSchema', () => {
+    it('should accept a symbol with optional filters', () => {
+      expect(GetOptionChainZodSchema.safeParse({ symbol: 'AAPL' }).success).toBe(true);
+      expect(GetOptionChainZodSchema.safeParse({
+        symbol: 'AAPL', conid: '265598', right: 'P', moneyness: 0.05, minDaysToExpiry: 7, maxDaysToExpiry: 45, maxStrikes: 20,
+      }).success).toBe(true);
+    });
+
+    it('should reject out of range filters', () => {
+      expect(GetOptionChainZodSchema.safeParse({ symbol: 'AAPL', moneyness: 0 }).success).toBe(false);
+      expect(GetOptionChainZodSchema.safeParse({ symbol: 'AAPL', maxStrikes: 100 }).success).toBe(false);
+      expect(GetOptionChainZodSchema.safeParse({ symbol: 'AAPL', right: 'CALL' }).success).toBe(false);
+    });
+  });
+
+  describe('GetTradesZodSchema', () => {
+    it('should accept a lookback of up to 7 days', () => {
+      expect(GetTradesZodSchema.safeParse({}).success).toBe(true);
+      expect(GetTradesZodSchema.safeParse({ days: 7, accountId: 'U12345' }).success).toBe(true);
+    });
+
+    it('should reject lookbacks the gateway does not keep', () => {
+      expect(GetTradesZodSchema.safeParse({ days: 0 }).success).toBe(false);
+      expect(GetTradesZodSchema.safeParse({ days: 8 }).success).toBe(false);
+    });
+  });
+
   describe('GetOrderStatusZodSchema', () => {
     it('should require orderId', () => {
       const result = GetOrderStatusZodSchema.safeParse({});
@@ -223,6 +505,43 @@ describe('Tool Definitions - Zod Schemas', () => {
     });
   });
 
+  describe('CancelOrderZodSchema', () => {
+    it('should require orderId but not accountId', () => {
+      expect(CancelOrderZodSchema.safeParse({ accountId: 'U12345' }).success).toBe(false);
+      expect(CancelOrderZodSchema.safeParse({ orderId: '123' }).success).toBe(true);
+      expect(CancelOrderZodSchema.safeParse({ accountId: 'U12345', orderId: '123' }).success).toBe(true);
+    });
+  });
+
+  describe('CancelAllOrdersZodSchema', () => {
+    it('should accept an optional symbol', () => {
+      expect(CancelAllOrdersZodSchema.safeParse({ accountId: 'U12345' }).success).toBe(true);
+      expect(CancelAllOrdersZodSchema.safeParse({ accountId: 'U12345', symbol: 'AAPL' }).success).toBe(true);
+    });
+
+    it('should make accountId optional', () => {
+      expect(CancelAllOrdersZodSchema.safeParse({}).success).toBe(true);
+    });
+  });
+
+  describe('ModifyOrderZodSchema', () => {
+    it('should accept a price change', () => {
+      expect(ModifyOrderZodSchema.safeParse({ accountId: 'U12345', orderId: '123', price: 186.25 }).success).toBe(true);
+    });
+
+    it('should accept a quantity given as a string', () => {
+      const result = ModifyOrderZodSchema.safeParse({ accountId: 'U12345', orderId: '123', quantity: '5' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.quantity).toBe(5);
+      }
+    });
+
+    it('should reject a modification without changes', () => {
+      expect(ModifyOrderZodSchema.safeParse({ accountId: 'U12345', orderId: '123' }).success).toBe(false);
+    });
+  });
+
   describe('ConfirmOrderZodSchema', () => {
     it('should require replyId and messageIds', () => {
       const result = ConfirmOrderZodSchema.safeParse({});
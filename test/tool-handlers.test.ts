@@ -3,6 +3,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { ToolHandlers, ToolHandlerContext } from '../src/tool-handlers.js';
 import { IBClient } from '../src/ib-client.js';
 import { IBGatewayManager } from '../src/gateway-manager.js';
+import { ContractResolutionError } from '../src/contract-resolver.js';
 
 // Mock dependencies
 vi.mock('../src/ib-client.js');
@@ -24,11 +25,29 @@ describe('ToolHandlers', () => {
       checkAuthenticationStatus: vi.fn().mockResolvedValue(true),
       getAccountInfo: vi.fn().mockResolvedValue({ accounts: [] }),
       getPositions: vi.fn().mockResolvedValue([]),
+      searchContracts: vi.fn().mockResolvedValue([]),
       getMarketData: vi.fn().mockResolvedValue({ price: 150 }),
+      getHistoricalData: vi.fn().mockResolvedValue({ bars: [] }),
+      getQuotes: vi.fn().mockResolvedValue({ quotes: [] }),
       placeOrder: vi.fn().mockResolvedValue({ orderId: '123' }),
+      previewOrder: vi.fn().mockResolvedValue({ preview: {} }),
+      placeBracketOrder: vi.fn().mockResolvedValue({ parentOrderId: 'bracket-1' }),
       getOrderStatus: vi.fn().mockResolvedValue({ status: 'Filled' }),
+      waitForOrder: vi.fn().mockResolvedValue({ orderId: '123', status: 'Filled', terminal: true, timedOut: false }),
       getOrders: vi.fn().mockResolvedValue([]),
+      getOptionChain: vi.fn().mockResolvedValue({ symbol: 'AAPL', expirations: [] }),
+      getTrades: vi.fn().mockResolvedValue([]),
       confirmOrder: vi.fn().mockResolvedValue({ confirmed: true }),
+      confirmOrderReplies: vi.fn().mockResolvedValue({ status: 'placed', orders: [], messages: [], reply: [] }),
+      cancelOrder: vi.fn().mockResolvedValue({ msg: 'Request was submitted' }),
+      cancelAllOrders: vi.fn().mockResolvedValue({ cancelled: 0, failed: 0, results: [] }),
+      modifyOrder: vi.fn().mockResolvedValue({ orderId: '123', before: {}, after: {} }),
+      getAccounts: vi.fn().mockResolvedValue({ accounts: ['U12345', 'DU12345', 'DU99999'], selectedAccount: 'U12345' }),
+      getPnL: vi.fn().mockResolvedValue({ accounts: [{ accountId: 'U12345', dailyPnl: 15.7 }] }),
+      getAccountLedger: vi.fn().mockResolvedValue({ accountId: 'U12345', base: null, currencies: [] }),
+      listAccounts: vi.fn().mockResolvedValue({ activeAccount: 'U12345', accounts: [] }),
+      switchAccount: vi.fn().mockResolvedValue({ activeAccount: 'DU12345' }),
+      getAccountModes: vi.fn().mockResolvedValue([{ accountId: 'DU12345', mode: 'paper' }]),
       destroy: vi.fn(),
       updatePort: vi.fn(),
     } as any;
@@ -49,6 +68,7 @@ describe('ToolHandlers', () => {
         IB_HEADLESS_MODE: false,
         IB_GATEWAY_HOST: 'localhost',
         IB_GATEWAY_PORT: 5000,
+        IB_ALLOW_LIVE_TRADING: true,
       },
     };
 
@@ -68,6 +88,14 @@ describe('ToolHandlers', () => {
       expect(mockIBClient.getAccountInfo).toHaveBeenCalled();
     });
 
+    it('should default to the compact summary', async () => {
+      await handlers.getAccountInfo({ confirm: true });
+      await handlers.getAccountInfo({ confirm: true, verbosity: 'raw' });
+
+      expect(mockIBClient.getAccountInfo).toHaveBeenNthCalledWith(1, 'compact');
+      expect(mockIBClient.getAccountInfo).toHaveBeenNthCalledWith(2, 'raw');
+    });
+
     it('should handle errors gracefully', async () => {
       mockIBClient.getAccountInfo = vi.fn().mockRejectedValue(new Error('API Error'));
 
@@ -86,14 +114,120 @@ describe('ToolHandlers', () => {
       const result = await handlers.getPositions({ accountId: 'U12345' });
 
       expect(result.content).toBeDefined();
-      expect(mockIBClient.getPositions).toHaveBeenCalledWith('U12345');
+      expect(mockIBClient.getPositions).toHaveBeenCalledWith('U12345', expect.any(Object));
     });
 
-    it('should handle missing accountId', async () => {
-      const result = await handlers.getPositions({} as any);
+    it('should default to the selected account', async () => {
+      await handlers.getPositions({});
 
-      expect(result.content).toBeDefined();
-      expect(result.content[0].text).toContain('Account ID is required');
+      expect(mockIBClient.getPositions).toHaveBeenCalledWith('U12345', expect.any(Object));
+    });
+
+    it('should pass filters, sorting and refresh', async () => {
+      await handlers.getPositions({ secType: 'STK', minMarketValue: 1000, sortBy: 'marketValue', refresh: true });
+
+      expect(mockIBClient.getPositions).toHaveBeenCalledWith('U12345', expect.objectContaining({
+        secType: 'STK',
+        minMarketValue: 1000,
+        sortBy: 'marketValue',
+        refresh: true,
+      }));
+    });
+  });
+
+  describe('getAccountLedger', () => {
+    it('should return the ledger of the default account', async () => {
+      const result = await handlers.getAccountLedger({});
+
+      expect(mockIBClient.getAccountLedger).toHaveBeenCalledWith('U12345');
+      expect(JSON.parse(result.content[0].text).accountId).toBe('U12345');
+    });
+  });
+
+  describe('getPnL', () => {
+    it('should return every account unless one is named', async () => {
+      const result = await handlers.getPnL({});
+
+      expect(mockIBClient.getPnL).toHaveBeenCalledWith(undefined, undefined);
+      expect(JSON.parse(result.content[0].text).accounts[0].dailyPnl).toBe(15.7);
+    });
+
+    it('should resolve the account when positions are requested', async () => {
+      await handlers.getPnL({ includePositions: true });
+
+      expect(mockIBClient.getPnL).toHaveBeenCalledWith('U12345', true);
+    });
+  });
+
+  describe('listAccounts', () => {
+    it('should return the accounts', async () => {
+      const result = await handlers.listAccounts({});
+
+      expect(JSON.parse(result.content[0].text).activeAccount).toBe('U12345');
+    });
+  });
+
+  describe('switchAccount', () => {
+    it('should switch to a known account', async () => {
+      await handlers.switchAccount({ accountId: 'du12345' });
+
+      expect(mockIBClient.switchAccount).toHaveBeenCalledWith('DU12345');
+    });
+
+    it('should refuse unknown accounts', async () => {
+      const result = await handlers.switchAccount({ accountId: 'U00000' });
+
+      expect(result.content[0].text).toContain('not available');
+      expect(mockIBClient.switchAccount).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Account defaulting', () => {
+    const orderInput = {
+      symbol: 'AAPL',
+      action: 'BUY' as const,
+      orderType: 'MKT' as const,
+      quantity: 10,
+    };
+
+    it('should use the only account when none is given', async () => {
+      mockIBClient.getAccounts = vi.fn().mockResolvedValue({ accounts: ['U55555'] });
+
+      await handlers.placeOrder(orderInput);
+
+      expect(mockIBClient.placeOrder).toHaveBeenCalledWith(expect.objectContaining({ accountId: 'U55555' }));
+    });
+
+    it('should prefer the configured IB_ACCOUNT', async () => {
+      context.config.IB_ACCOUNT = 'DU12345';
+      handlers = new ToolHandlers(context);
+
+      await handlers.placeOrder(orderInput);
+
+      expect(mockIBClient.placeOrder).toHaveBeenCalledWith(expect.objectContaining({ accountId: 'DU12345' }));
+    });
+
+    it('should match a supplied accountId case-insensitively', async () => {
+      await handlers.cancelOrder({ accountId: 'du12345', orderId: '987' });
+
+      expect(mockIBClient.cancelOrder).toHaveBeenCalledWith('DU12345', '987', undefined);
+    });
+
+    it('should reject unknown accounts with the available ones', async () => {
+      const result = await handlers.placeOrder({ ...orderInput, accountId: 'U00000' });
+
+      expect(result.content[0].text).toContain('Account U00000 is not available');
+      expect(result.content[0].text).toContain('U12345, DU12345, DU99999');
+      expect(mockIBClient.placeOrder).not.toHaveBeenCalled();
+    });
+
+    it('should ask for an accountId when several accounts and none selected', async () => {
+      mockIBClient.getAccounts = vi.fn().mockResolvedValue({ accounts: ['U1', 'U2'] });
+
+      const result = await handlers.getPositions({});
+
+      expect(result.content[0].text).toContain('pass accountId');
+      expect(mockIBClient.getPositions).not.toHaveBeenCalled();
     });
   });
 
@@ -105,7 +239,12 @@ describe('ToolHandlers', () => {
       const result = await handlers.getMarketData({ symbol: 'AAPL' });
 
       expect(result.content).toBeDefined();
-      expect(mockIBClient.getMarketData).toHaveBeenCalledWith('AAPL', undefined);
+      expect(mockIBClient.getMarketData).toHaveBeenCalledWith('AAPL', {
+        conid: undefined,
+        secType: undefined,
+        exchange: undefined,
+        currency: undefined,
+      }, undefined);
     });
 
     it('should pass exchange parameter', async () => {
@@ -114,7 +253,70 @@ describe('ToolHandlers', () => {
 
       await handlers.getMarketData({ symbol: 'AAPL', exchange: 'NASDAQ' });
 
-      expect(mockIBClient.getMarketData).toHaveBeenCalledWith('AAPL', 'NASDAQ');
+      expect(mockIBClient.getMarketData).toHaveBeenCalledWith('AAPL', expect.objectContaining({ exchange: 'NASDAQ' }), undefined);
+    });
+
+    it('should pass explicit conid', async () => {
+      await handlers.getMarketData({ symbol: 'SHOP', conid: 195014116 });
+
+      expect(mockIBClient.getMarketData).toHaveBeenCalledWith('SHOP', expect.objectContaining({ conid: 195014116 }), undefined);
+    });
+
+    it('should pass requested field names', async () => {
+      await handlers.getMarketData({ symbol: 'AAPL', fields: ['last', 'volume'] });
+
+      expect(mockIBClient.getMarketData).toHaveBeenCalledWith('AAPL', expect.any(Object), ['last', 'volume']);
+    });
+  });
+
+  describe('getQuotes', () => {
+    it('should normalize plain symbols into quote requests', async () => {
+      await handlers.getQuotes({
+        symbols: ['AAPL', { symbol: 'SHOP', conid: 195014116 }],
+        fields: ['last'],
+      });
+
+      expect(mockIBClient.getQuotes).toHaveBeenCalledWith(
+        [{ symbol: 'AAPL' }, { symbol: 'SHOP', conid: 195014116 }],
+        ['last']
+      );
+    });
+  });
+
+  describe('getHistoricalData', () => {
+    it('should pass bar options and contract filter', async () => {
+      const mockHistory = { symbol: 'AAPL', barCount: 0, bars: [] };
+      mockIBClient.getHistoricalData = vi.fn().mockResolvedValue(mockHistory);
+
+      const result = await handlers.getHistoricalData({
+        symbol: 'AAPL',
+        exchange: 'NASDAQ',
+        period: '1w',
+        bar: '1h',
+        outsideRth: false,
+      });
+
+      expect(mockIBClient.getHistoricalData).toHaveBeenCalledWith(
+        'AAPL',
+        { period: '1w', bar: '1h', outsideRth: false, startTime: undefined },
+        expect.objectContaining({ exchange: 'NASDAQ' })
+      );
+      expect(JSON.parse(result.content[0].text)).toEqual(mockHistory);
+    });
+  });
+
+  describe('searchContracts', () => {
+    it('should return all candidate contracts', async () => {
+      const candidates = [
+        { conid: 195014116, symbol: 'SHOP', exchange: 'NYSE', currency: 'USD' },
+        { conid: 195014118, symbol: 'SHOP', exchange: 'TSE', currency: 'CAD' },
+      ];
+      mockIBClient.searchContracts = vi.fn().mockResolvedValue(candidates);
+
+      const result = await handlers.searchContracts({ symbol: 'SHOP' });
+
+      expect(mockIBClient.searchContracts).toHaveBeenCalledWith('SHOP', undefined);
+      expect(JSON.parse(result.content[0].text)).toEqual(candidates);
     });
   });
 
@@ -167,6 +369,45 @@ describe('ToolHandlers', () => {
       );
     });
 
+    it('should pass time in force and outsideRth', async () => {
+      await handlers.placeOrder({
+        accountId: 'U12345',
+        symbol: 'AAPL',
+        action: 'BUY' as const,
+        orderType: 'LMT' as const,
+        quantity: 10,
+        price: 150,
+        tif: 'GTC' as const,
+        outsideRth: true,
+      });
+
+      expect(mockIBClient.placeOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ tif: 'GTC', outsideRth: true })
+      );
+    });
+
+    it('should list candidates when the contract is ambiguous', async () => {
+      const candidates = [
+        { conid: 14094, symbol: 'BMW', exchange: 'IBIS' },
+        { conid: 14095, symbol: 'BMW', exchange: 'LSE' },
+      ];
+      mockIBClient.placeOrder = vi.fn().mockRejectedValue(
+        new ContractResolutionError('Symbol BMW is ambiguous', candidates)
+      );
+
+      const result = await handlers.placeOrder({
+        accountId: 'U12345',
+        symbol: 'BMW',
+        action: 'BUY' as const,
+        orderType: 'MKT' as const,
+        quantity: 10,
+      });
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.error).toContain('ambiguous');
+      expect(parsed.candidates).toEqual(candidates);
+    });
+
     it('should handle order placement errors', async () => {
       mockIBClient.placeOrder = vi.fn().mockRejectedValue(new Error('Order failed'));
 
@@ -184,6 +425,352 @@ describe('ToolHandlers', () => {
     });
   });
 
+  describe('placeOrder risk limits', () => {
+    const orderInput = {
+      accountId: 'U12345',
+      symbol: 'AAPL',
+      action: 'BUY' as const,
+      orderType: 'MKT' as const,
+      quantity: 10,
+    };
+
+    it('should reject orders that break a limit without sending them', async () => {
+      context.config.IB_RISK_MAX_ORDER_QUANTITY = 5;
+      handlers = new ToolHandlers(context);
+
+      const result = await handlers.placeOrder(orderInput);
+
+      const response = JSON.parse(result.content[0].text);
+      expect(response.rejected).toBe(true);
+      expect(response.violations).toEqual([expect.objectContaining({ rule: 'maxOrderQuantity' })]);
+      expect(mockIBClient.placeOrder).not.toHaveBeenCalled();
+    });
+
+    it('should value market orders at the last price for the notional check', async () => {
+      context.config.IB_RISK_MAX_ORDER_NOTIONAL = 1000;
+      mockIBClient.getMarketData = vi.fn().mockResolvedValue({ marketData: { last: 150 } });
+      handlers = new ToolHandlers(context);
+
+      const result = await handlers.placeOrder(orderInput);
+
+      expect(mockIBClient.getMarketData).toHaveBeenCalledWith('AAPL', expect.any(Object), ['last']);
+      expect(JSON.parse(result.content[0].text).violations[0]).toEqual(
+        expect.objectContaining({ rule: 'maxOrderNotional', actual: 1500 })
+      );
+      expect(mockIBClient.placeOrder).not.toHaveBeenCalled();
+    });
+
+    it('should use the current position for the position limit', async () => {
+      context.config.IB_RISK_MAX_POSITION_SIZE = 100;
+      mockIBClient.getPositions = vi.fn().mockResolvedValue([{ conid: 265598, ticker: 'AAPL', position: 95 }]);
+      handlers = new ToolHandlers(context);
+
+      const result = await handlers.placeOrder(orderInput);
+
+      expect(mockIBClient.getPositions).toHaveBeenCalledWith('U12345', { refresh: true });
+      expect(JSON.parse(result.content[0].text).violations[0].rule).toBe('maxPositionSize');
+    });
+
+    it('should count working orders towards the position limit', async () => {
+      context.config.IB_RISK_MAX_POSITION_SIZE = 100;
+      mockIBClient.getPositions = vi.fn().mockResolvedValue([{ conid: 265598, ticker: 'AAPL', position: 50 }]);
+      mockIBClient.getOrders = vi.fn().mockResolvedValue({
+        orders: [
+          { orderId: 7, acct: 'U12345', ticker: 'AAPL', side: 'BUY', remainingQuantity: 45, status: 'Submitted' },
+          { orderId: 8, acct: 'U12345', ticker: 'AAPL', side: 'BUY', remainingQuantity: 45, status: 'Cancelled' },
+        ],
+      });
+      handlers = new ToolHandlers(context);
+
+      const result = await handlers.placeOrder(orderInput);
+
+      expect(JSON.parse(result.content[0].text).violations[0]).toEqual(
+        expect.objectContaining({ rule: 'maxPositionSize', actual: 105 })
+      );
+      expect(mockIBClient.placeOrder).not.toHaveBeenCalled();
+    });
+
+    it('should refuse brackets when market orders are blocked, since the stop-loss leg is a stop order', async () => {
+      context.config.IB_RISK_ALLOW_MARKET_ORDERS = false;
+      handlers = new ToolHandlers(context);
+
+      const result = await handlers.placeBracketOrder({
+        accountId: 'U12345', symbol: 'AAPL', action: 'BUY', orderType: 'LMT', quantity: 10,
+        price: 185, takeProfitPrice: 195, stopLossPrice: 180,
+      });
+
+      expect(JSON.parse(result.content[0].text).violations).toEqual([
+        expect.objectContaining({ rule: 'allowMarketOrders', actual: 'STP' }),
+      ]);
+      expect(mockIBClient.placeBracketOrder).not.toHaveBeenCalled();
+    });
+
+    it('should count placed orders against the daily limit', async () => {
+      context.config.IB_RISK_MAX_DAILY_ORDERS = 1;
+      handlers = new ToolHandlers(context);
+
+      await handlers.placeOrder(orderInput);
+      const result = await handlers.placeOrder(orderInput);
+
+      expect(mockIBClient.placeOrder).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(result.content[0].text).violations[0].rule).toBe('maxDailyOrders');
+    });
+  });
+
+  describe('Live trading guard', () => {
+    const orderInput = {
+      accountId: 'U12345',
+      symbol: 'AAPL',
+      action: 'BUY' as const,
+      orderType: 'MKT' as const,
+      quantity: 10,
+    };
+
+    beforeEach(() => {
+      context.config.IB_ALLOW_LIVE_TRADING = false;
+      handlers = new ToolHandlers(context);
+    });
+
+    it('should refuse orders to live accounts', async () => {
+      mockIBClient.getAccountModes = vi.fn().mockResolvedValue([{ accountId: 'U12345', mode: 'live' }]);
+
+      const result = await handlers.placeOrder(orderInput);
+
+      expect(JSON.parse(result.content[0].text).violations[0].rule).toBe('liveTrading');
+      expect(mockIBClient.placeOrder).not.toHaveBeenCalled();
+    });
+
+    it('should allow orders to paper accounts', async () => {
+      await handlers.placeOrder({ ...orderInput, accountId: 'DU12345' });
+
+      expect(mockIBClient.placeOrder).toHaveBeenCalled();
+    });
+
+    it('should fall back to the account id when metadata is unavailable', async () => {
+      mockIBClient.getAccountModes = vi.fn().mockRejectedValue(new Error('Gateway down'));
+
+      await handlers.placeOrder(orderInput);
+      await handlers.placeOrder({ ...orderInput, accountId: 'DU99999' });
+
+      expect(mockIBClient.placeOrder).toHaveBeenCalledTimes(1);
+      expect(mockIBClient.placeOrder).toHaveBeenCalledWith(expect.objectContaining({ accountId: 'DU99999' }));
+    });
+  });
+
+  describe('withTradingMode', () => {
+    it('should append the session mode to the response', async () => {
+      const result = await handlers.withTradingMode({ content: [{ type: 'text', text: '{}' }] });
+
+      expect(result.content).toEqual([
+        { type: 'text', text: '{}' },
+        { type: 'text', text: 'Trading mode: paper' },
+      ]);
+    });
+
+    it('should report an unknown mode when the accounts cannot be loaded', async () => {
+      mockIBClient.getAccountModes = vi.fn().mockRejectedValue(new Error('Not authenticated'));
+
+      const result = await handlers.withTradingMode({ content: [{ type: 'text', text: '{}' }] });
+
+      expect(result.content[1].text).toBe('Trading mode: unknown');
+    });
+
+    it('should not look up the accounts after an authentication failure', async () => {
+      mockIBClient.placeOrder = vi.fn().mockRejectedValue(Object.assign(new Error('Authentication required to place orders.'), { isAuthError: true }));
+
+      const result = await handlers.withTradingMode(await handlers.placeOrder({
+        accountId: 'U12345', symbol: 'AAPL', action: 'BUY', orderType: 'MKT', quantity: 1,
+      }));
+
+      expect(result.content[1].text).toBe('Trading mode: unknown');
+      expect(mockIBClient.getAccountModes).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('previewOrder', () => {
+    it('should preview without placing the order', async () => {
+      const orderInput = {
+        accountId: 'U12345',
+        symbol: 'AAPL',
+        action: 'BUY' as const,
+        orderType: 'LMT' as const,
+        quantity: 10,
+        price: 185,
+      };
+
+      await handlers.previewOrder(orderInput);
+
+      expect(mockIBClient.previewOrder).toHaveBeenCalledWith(expect.objectContaining(orderInput));
+      expect(mockIBClient.placeOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('placeBracketOrder', () => {
+    it('should pass entry, target and stop prices', async () => {
+      await handlers.placeBracketOrder({
+        accountId: 'U12345',
+        symbol: 'AAPL',
+        action: 'BUY' as const,
+        orderType: 'LMT' as const,
+        quantity: 10,
+        price: 185,
+        takeProfitPrice: 195,
+        stopLossPrice: 180,
+      });
+
+      expect(mockIBClient.placeBracketOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ price: 185, takeProfitPrice: 195, stopLossPrice: 180 })
+      );
+    });
+  });
+
+  describe('placeOrder validation', () => {
+    const orderInput = {
+      accountId: 'U12345',
+      symbol: 'AAPL',
+      action: 'SELL' as const,
+      quantity: 10,
+    };
+
+    it('should refuse a trailing stop without trailing amount', async () => {
+      const result = await handlers.placeOrder({ ...orderInput, orderType: 'TRAIL' as const });
+
+      const response = JSON.parse(result.content[0].text);
+      expect(response.success).toBe(false);
+      expect(response.issues.map((issue: any) => issue.path)).toEqual(['trailingAmt', 'trailingType']);
+      expect(mockIBClient.placeOrder).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a stop limit without stop price', async () => {
+      const result = await handlers.placeOrder({ ...orderInput, orderType: 'STOP_LIMIT' as const, price: 179.5 });
+
+      expect(JSON.parse(result.content[0].text).issues[0].message).toBe('STOP_LIMIT orders require stopPrice');
+      expect(mockIBClient.placeOrder).not.toHaveBeenCalled();
+    });
+
+    it('should refuse GTD without expiry', async () => {
+      const result = await handlers.placeOrder({ ...orderInput, orderType: 'LMT' as const, price: 180, tif: 'GTD' as const });
+
+      expect(JSON.parse(result.content[0].text).success).toBe(false);
+      expect(mockIBClient.placeOrder).not.toHaveBeenCalled();
+    });
+
+    it('should check previews the same way', async () => {
+      const result = await handlers.previewOrder({ ...orderInput, orderType: 'LOC' as const });
+
+      expect(JSON.parse(result.content[0].text).issues[0].message).toBe('LOC orders require price');
+      expect(mockIBClient.previewOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('placeBracketOrder validation', () => {
+    const bracketInput = {
+      accountId: 'U12345',
+      symbol: 'AAPL',
+      action: 'BUY' as const,
+      orderType: 'LMT' as const,
+      quantity: 10,
+      price: 185,
+      takeProfitPrice: 195,
+      stopLossPrice: 180,
+    };
+
+    it('should refuse an inverted BUY bracket before it reaches the gateway', async () => {
+      const result = await handlers.placeBracketOrder({ ...bracketInput, takeProfitPrice: 180, stopLossPrice: 195 });
+
+      const response = JSON.parse(result.content[0].text);
+      expect(response.success).toBe(false);
+      expect(response.issues[0].message).toContain('stopLossPrice < price < takeProfitPrice');
+      expect(mockIBClient.placeBracketOrder).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a LMT entry without price', async () => {
+      const result = await handlers.placeBracketOrder({ ...bracketInput, price: undefined });
+
+      expect(JSON.parse(result.content[0].text).success).toBe(false);
+      expect(mockIBClient.placeBracketOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Order approval mode', () => {
+    const orderInput = {
+      accountId: 'U12345',
+      symbol: 'AAPL',
+      action: 'BUY' as const,
+      orderType: 'LMT' as const,
+      quantity: 10,
+      price: 185,
+    };
+
+    beforeEach(() => {
+      context.config.IB_REQUIRE_APPROVAL = true;
+      handlers = new ToolHandlers(context);
+    });
+
+    it('should park the order with its preview instead of placing it', async () => {
+      const result = await handlers.placeOrder(orderInput);
+
+      const response = JSON.parse(result.content[0].text);
+      expect(response.status).toBe('pending_approval');
+      expect(response.ticketId).toBeTruthy();
+      expect(response.preview).toEqual({ preview: {} });
+      expect(mockIBClient.previewOrder).toHaveBeenCalledWith(expect.objectContaining({ symbol: 'AAPL', price: 185 }));
+      expect(mockIBClient.placeOrder).not.toHaveBeenCalled();
+    });
+
+    it('should place the order once approved', async () => {
+      const pending = JSON.parse((await handlers.placeOrder(orderInput)).content[0].text);
+
+      const result = await handlers.approveOrder({ ticketId: pending.ticketId });
+
+      expect(JSON.parse(result.content[0].text)).toEqual(
+        expect.objectContaining({ ticketId: pending.ticketId, approved: true, result: { orderId: '123' } })
+      );
+      expect(mockIBClient.placeOrder).toHaveBeenCalledWith(expect.objectContaining({ symbol: 'AAPL', price: 185 }));
+    });
+
+    it('should park and release bracket orders', async () => {
+      const pending = JSON.parse((await handlers.placeBracketOrder({
+        ...orderInput,
+        takeProfitPrice: 195,
+        stopLossPrice: 180,
+      })).content[0].text);
+
+      await handlers.approveOrder({ ticketId: pending.ticketId });
+
+      expect(mockIBClient.placeBracketOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ takeProfitPrice: 195, stopLossPrice: 180 })
+      );
+    });
+
+    it('should park amendments and apply them once approved', async () => {
+      const status = { conid: 265598, ticker: 'AAPL', side: 'B', order_type: 'LIMIT', total_size: '10', limit_price: '185' };
+      mockIBClient.getOrderStatus = vi.fn().mockResolvedValue(status);
+
+      const pending = JSON.parse((await handlers.modifyOrder({ accountId: 'U12345', orderId: '123', price: 186 })).content[0].text);
+
+      expect(pending.status).toBe('pending_approval');
+      expect(pending.preview).toEqual(status);
+      expect(mockIBClient.modifyOrder).not.toHaveBeenCalled();
+
+      const result = await handlers.approveOrder({ ticketId: pending.ticketId });
+
+      expect(JSON.parse(result.content[0].text).approved).toBe(true);
+      expect(mockIBClient.modifyOrder).toHaveBeenCalledWith('U12345', '123', expect.objectContaining({ price: 186 }));
+    });
+
+    it('should discard rejected tickets', async () => {
+      const pending = JSON.parse((await handlers.placeOrder(orderInput)).content[0].text);
+
+      const rejected = await handlers.rejectOrder({ ticketId: pending.ticketId });
+      const approved = await handlers.approveOrder({ ticketId: pending.ticketId });
+
+      expect(JSON.parse(rejected.content[0].text).rejected).toBe(true);
+      expect(approved.content[0].text).toContain('not found');
+      expect(mockIBClient.placeOrder).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getLiveOrders', () => {
     it('should return all live orders', async () => {
       const mockOrders = [{ orderId: '123', status: 'Working' }];
@@ -206,6 +793,148 @@ describe('ToolHandlers', () => {
     });
   });
 
+  describe('getOptionChain', () => {
+    it('should pass the filters and underlying conid', async () => {
+      const result = await handlers.getOptionChain({ symbol: 'AAPL', conid: 265598, moneyness: 0.05, maxDaysToExpiry: 30, right: 'C' });
+
+      expect(mockIBClient.getOptionChain).toHaveBeenCalledWith(
+        'AAPL',
+        expect.objectContaining({ moneyness: 0.05, maxDaysToExpiry: 30, right: 'C' }),
+        265598
+      );
+      expect(JSON.parse(result.content[0].text).symbol).toBe('AAPL');
+    });
+  });
+
+  describe('waitForFill', () => {
+    const orderInput = {
+      accountId: 'U12345',
+      symbol: 'AAPL',
+      action: 'BUY' as const,
+      orderType: 'MKT' as const,
+      quantity: 10,
+      waitForFill: true,
+    };
+
+    it('should wait for the placed order and return its fill', async () => {
+      mockIBClient.placeOrder = vi.fn().mockResolvedValue({
+        status: 'placed', orders: [{ orderId: '123', status: 'Submitted' }], messages: [], reply: [],
+      });
+
+      const result = await handlers.placeOrder({ ...orderInput, fillTimeoutSeconds: 10 });
+
+      expect(mockIBClient.waitForOrder).toHaveBeenCalledWith('123', 10000);
+      expect(JSON.parse(result.content[0].text).fill.status).toBe('Filled');
+    });
+
+    it('should not wait when the order still needs confirmation', async () => {
+      mockIBClient.placeOrder = vi.fn().mockResolvedValue({
+        status: 'needs_confirmation', replyId: 'reply-1', messageIds: ['o163'], message: ['Confirm?'], messages: [],
+      });
+
+      const result = await handlers.placeOrder(orderInput);
+
+      expect(mockIBClient.waitForOrder).not.toHaveBeenCalled();
+      expect(JSON.parse(result.content[0].text).fill).toBeNull();
+    });
+
+    it('should not wait unless asked to', async () => {
+      await handlers.placeOrder({ ...orderInput, waitForFill: undefined });
+
+      expect(mockIBClient.waitForOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('waitForOrder', () => {
+    it('should wait 30 seconds by default', async () => {
+      const result = await handlers.waitForOrder({ orderId: '123' });
+
+      expect(mockIBClient.waitForOrder).toHaveBeenCalledWith('123', 30000);
+      expect(JSON.parse(result.content[0].text).timedOut).toBe(false);
+    });
+  });
+
+  describe('getTrades', () => {
+    it('should fetch a day of trades for every account by default', async () => {
+      await handlers.getTrades({});
+
+      expect(mockIBClient.getTrades).toHaveBeenCalledWith(1, undefined);
+    });
+
+    it('should pass the lookback and a validated account', async () => {
+      await handlers.getTrades({ days: 7, accountId: 'DU12345' });
+
+      expect(mockIBClient.getTrades).toHaveBeenCalledWith(7, 'DU12345');
+    });
+  });
+
+  describe('cancelOrder', () => {
+    it('should cancel order', async () => {
+      const result = await handlers.cancelOrder({ accountId: 'U12345', orderId: '123' });
+
+      expect(mockIBClient.cancelOrder).toHaveBeenCalledWith('U12345', '123', undefined);
+      expect(result.content[0].text).toContain('Request was submitted');
+    });
+
+    it('should handle cancellation errors', async () => {
+      mockIBClient.cancelOrder = vi.fn().mockRejectedValue(new Error('Failed to cancel order 123'));
+
+      const result = await handlers.cancelOrder({ accountId: 'U12345', orderId: '123' });
+
+      expect(result.content[0].text).toContain('Failed to cancel order 123');
+    });
+  });
+
+  describe('cancelAllOrders', () => {
+    it('should cancel orders for account and symbol', async () => {
+      await handlers.cancelAllOrders({ accountId: 'U12345', symbol: 'AAPL', suppressConfirmations: true });
+
+      expect(mockIBClient.cancelAllOrders).toHaveBeenCalledWith('U12345', 'AAPL', true);
+    });
+  });
+
+  describe('modifyOrder', () => {
+    it('should pass the requested changes', async () => {
+      await handlers.modifyOrder({ accountId: 'U12345', orderId: '123', price: 186.25 });
+
+      expect(mockIBClient.modifyOrder).toHaveBeenCalledWith('U12345', '123', expect.objectContaining({ price: 186.25 }));
+    });
+
+    it('should require at least one change', async () => {
+      const result = await handlers.modifyOrder({ accountId: 'U12345', orderId: '123' });
+
+      expect(JSON.parse(result.content[0].text)).toEqual(expect.objectContaining({
+        success: false,
+        issues: [expect.objectContaining({ message: expect.stringContaining('At least one of price, auxPrice, quantity or tif') })],
+      }));
+      expect(mockIBClient.modifyOrder).not.toHaveBeenCalled();
+    });
+
+    it('should check the amended order against the risk limits', async () => {
+      context.config.IB_RISK_MAX_ORDER_QUANTITY = 50;
+      mockIBClient.getOrderStatus = vi.fn().mockResolvedValue({ conid: 265598, ticker: 'AAPL', side: 'B', order_type: 'LIMIT', total_size: '10', limit_price: '185' });
+      handlers = new ToolHandlers(context);
+
+      const result = await handlers.modifyOrder({ accountId: 'U12345', orderId: '123', quantity: 500 });
+
+      const response = JSON.parse(result.content[0].text);
+      expect(response.rejected).toBe(true);
+      expect(response.violations).toEqual([expect.objectContaining({ rule: 'maxOrderQuantity', actual: 500 })]);
+      expect(mockIBClient.modifyOrder).not.toHaveBeenCalled();
+    });
+
+    it('should not count amendments against the daily order limit', async () => {
+      context.config.IB_RISK_MAX_DAILY_ORDERS = 1;
+      mockIBClient.getOrderStatus = vi.fn().mockResolvedValue({ conid: 265598, ticker: 'AAPL', side: 'B', order_type: 'LIMIT', total_size: '10', limit_price: '185' });
+      handlers = new ToolHandlers(context);
+
+      await handlers.placeOrder({ accountId: 'U12345', symbol: 'AAPL', action: 'BUY', orderType: 'MKT', quantity: 10 });
+      await handlers.modifyOrder({ accountId: 'U12345', orderId: '123', price: 186 });
+
+      expect(mockIBClient.modifyOrder).toHaveBeenCalledWith('U12345', '123', expect.objectContaining({ price: 186 }));
+    });
+  });
+
   describe('getOrderStatus', () => {
     it('should return order status', async () => {
       const mockStatus = { orderId: '123', status: 'Filled' };
@@ -219,17 +948,17 @@ describe('ToolHandlers', () => {
   });
 
   describe('confirmOrder', () => {
-    it('should confirm order', async () => {
-      const mockResponse = { confirmed: true };
-      mockIBClient.confirmOrder = vi.fn().mockResolvedValue(mockResponse);
+    it('should confirm the messages and return the submission outcome', async () => {
+      const outcome = { status: 'placed', orders: [{ orderId: '1', status: 'Submitted' }], messages: [], reply: [] };
+      mockIBClient.confirmOrderReplies = vi.fn().mockResolvedValue(outcome);
 
       const result = await handlers.confirmOrder({
         replyId: 'reply-123',
         messageIds: ['msg1', 'msg2'],
       });
 
-      expect(result.content).toBeDefined();
-      expect(mockIBClient.confirmOrder).toHaveBeenCalledWith('reply-123', ['msg1', 'msg2']);
+      expect(JSON.parse(result.content[0].text)).toEqual(outcome);
+      expect(mockIBClient.confirmOrderReplies).toHaveBeenCalledWith('reply-123', ['msg1', 'msg2']);
     });
   });
 
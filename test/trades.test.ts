@@ -0,0 +1,68 @@
+// test/trades.test.ts
+import { describe, it, expect } from 'vitest';
+import { groupTradesByOrder } from '../src/trades.js';
+
+const fill = (overrides: Record<string, unknown>) => ({
+  execution_id: '0000e0d5.01',
+  symbol: 'AAPL',
+  side: 'B',
+  size: 10,
+  price: '190.00',
+  commission: '1.00',
+  exchange: 'ISLAND',
+  account: 'U12345',
+  conid: 265598,
+  sec_type: 'STK',
+  order_id: 101,
+  trade_time_r: 1709305200000,
+  ...overrides,
+});
+
+describe('Trades', () => {
+  it('should group fills by order with a size weighted average price', () => {
+    const orders = groupTradesByOrder([
+      fill({ execution_id: 'e2', size: 30, price: '191.00', commission: '0.50', trade_time_r: 1709305260000 }),
+      fill({ execution_id: 'e1' }),
+    ]);
+
+    expect(orders).toHaveLength(1);
+    expect(orders[0]).toEqual(expect.objectContaining({
+      orderId: '101',
+      accountId: 'U12345',
+      symbol: 'AAPL',
+      side: 'BUY',
+      quantity: 40,
+      avgPrice: 190.75,
+      commission: 1.5,
+      realizedPnl: null,
+      firstFill: '2024-03-01T15:00:00.000Z',
+      lastFill: '2024-03-01T15:01:00.000Z',
+    }));
+    expect(orders[0].executions.map((execution) => execution.executionId)).toEqual(['e1', 'e2']);
+  });
+
+  it('should sum realized PnL and list the newest order first', () => {
+    const orders = groupTradesByOrder([
+      fill({ order_id: 101 }),
+      fill({ order_id: 102, side: 'S', realized_pnl: '25.5', trade_time_r: 1709308800000 }),
+      fill({ order_id: 102, side: 'S', realized_pnl: '4.5', trade_time_r: 1709308801000 }),
+    ]);
+
+    expect(orders.map((order) => order.orderId)).toEqual(['102', '101']);
+    expect(orders[0]).toEqual(expect.objectContaining({ side: 'SELL', realizedPnl: 30 }));
+  });
+
+  it('should fall back to the order ref and filter by account', () => {
+    const orders = groupTradesByOrder([
+      fill({ order_id: undefined, order_ref: 'ref-1' }),
+      fill({ order_id: undefined, order_ref: 'ref-1', account: 'U67890' }),
+    ], 'U12345');
+
+    expect(orders).toEqual([expect.objectContaining({ orderId: 'ref-1', quantity: 10 })]);
+  });
+
+  it('should return no orders for empty or invalid responses', () => {
+    expect(groupTradesByOrder([])).toEqual([]);
+    expect(groupTradesByOrder(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,48 @@
+// test/trading-mode.test.ts
+import { describe, it, expect } from 'vitest';
+import {
+  accountTradingMode,
+  classifyAccounts,
+  isPaperAccountId,
+  sessionTradingMode,
+} from '../src/trading-mode.js';
+
+describe('Trading Mode', () => {
+  it('should recognise paper account ids', () => {
+    expect(isPaperAccountId('DU1234567')).toBe(true);
+    expect(isPaperAccountId('DF1234567')).toBe(true);
+    expect(isPaperAccountId('U1234567')).toBe(false);
+  });
+
+  it('should classify /portfolio/accounts rows', () => {
+    const accounts = classifyAccounts([
+      { id: 'DU1234567', accountId: 'DU1234567', type: 'INDIVIDUAL' },
+      { id: 'U7654321', accountId: 'U7654321', type: 'DEMO' },
+      { id: 'U1111111', type: 'INDIVIDUAL' },
+      {},
+    ]);
+
+    expect(accounts).toEqual([
+      { accountId: 'DU1234567', mode: 'paper' },
+      { accountId: 'U7654321', mode: 'paper' },
+      { accountId: 'U1111111', mode: 'live' },
+    ]);
+  });
+
+  it('should treat a session with any live account as live', () => {
+    expect(sessionTradingMode([])).toBe('unknown');
+    expect(sessionTradingMode([{ accountId: 'DU1', mode: 'paper' }])).toBe('paper');
+    expect(sessionTradingMode([
+      { accountId: 'DU1', mode: 'paper' },
+      { accountId: 'U2', mode: 'live' },
+    ])).toBe('live');
+  });
+
+  it('should fall back to the id prefix for unknown accounts', () => {
+    const accounts = [{ accountId: 'U7654321', mode: 'paper' as const }];
+
+    expect(accountTradingMode('u7654321', accounts)).toBe('paper');
+    expect(accountTradingMode('DU1234567', accounts)).toBe('paper');
+    expect(accountTradingMode('U1234567', accounts)).toBe('live');
+  });
+});